@@ -0,0 +1,137 @@
+/**
+ * @author redice44 / https://github.com/redice44
+ */
+
+// Keeps the camera of one set of controls in step with another's, such as for side by side
+// or before / after views of one model. A link copies the leader's view onto the follower on
+// every change, and the follower's back onto the leader unless the link is one way.
+// Controls can be linked to several others; a change is passed along each link once, so
+// links in a chain or a ring do not echo back.
+
+import * as THREE from 'three';
+import OrbitControlsCore, { OrbitControlsState, ControlsChangeEvent } from './OrbitControlsCore';
+
+// "rotation" is the azimuth and polar angles, "target" the point orbited,
+// and "zoom" the distance to the target along with camera.zoom
+export type LinkedProperty = 'rotation' | 'target' | 'zoom';
+
+export interface LinkOptions {
+  share?: LinkedProperty[]; // all three unless given
+  oneWay?: boolean; // only the follower moves
+  azimuthOffset?: number; // radians the follower's azimuth is ahead of the leader's
+  polarOffset?: number; // radians the follower's polar angle is below the leader's
+  targetOffset?: THREE.Vector3; // from the leader's target to the follower's
+}
+
+// the controls whose change is being passed on, so that it is not passed back to them
+const syncing: OrbitControlsCore[] = [];
+
+export default class ControlsLink {
+  public readonly leader: OrbitControlsCore;
+  public readonly follower: OrbitControlsCore;
+
+  // Set to false to stop following for a while, such as during a comparison of two angles
+  public enabled: boolean;
+
+  public share: LinkedProperty[];
+  public oneWay: boolean;
+  public azimuthOffset: number;
+  public polarOffset: number;
+  public targetOffset: THREE.Vector3;
+
+  private onLeaderChange: ( event: ControlsChangeEvent ) => void;
+  private onFollowerChange: ( event: ControlsChangeEvent ) => void;
+
+  // The follower takes the leader's view at once.
+  constructor( leader: OrbitControlsCore, follower: OrbitControlsCore, options: LinkOptions = {} ) {
+
+    this.leader = leader;
+    this.follower = follower;
+
+    this.enabled = true;
+
+    this.share = options.share !== undefined ? options.share.slice() : [ 'rotation', 'target', 'zoom' ];
+    this.oneWay = options.oneWay === true;
+    this.azimuthOffset = options.azimuthOffset !== undefined ? options.azimuthOffset : 0;
+    this.polarOffset = options.polarOffset !== undefined ? options.polarOffset : 0;
+    this.targetOffset = options.targetOffset !== undefined ? options.targetOffset.clone() : new THREE.Vector3();
+
+    this.onLeaderChange = () => this.pass( this.leader, this.follower, 1 );
+    this.onFollowerChange = () => {
+
+      if ( this.oneWay === false ) this.pass( this.follower, this.leader, - 1 );
+
+    };
+
+    leader.addEventListener( 'change', this.onLeaderChange );
+    follower.addEventListener( 'change', this.onFollowerChange );
+
+    this.sync();
+
+  }
+
+  // Copies the leader's view onto the follower now, such as after changing the offsets.
+  public sync(): void {
+
+    this.pass( this.leader, this.follower, 1 );
+
+  }
+
+  public dispose(): void {
+
+    this.leader.removeEventListener( 'change', this.onLeaderChange );
+    this.follower.removeEventListener( 'change', this.onFollowerChange );
+
+  }
+
+  // puts to where from is, with the offsets added going from leader to follower ( direction 1 )
+  // and taken off going back ( direction - 1 )
+  private pass( from: OrbitControlsCore, to: OrbitControlsCore, direction: number ): void {
+
+    if ( this.enabled === false || syncing.indexOf( to ) !== - 1 ) return;
+
+    const source: OrbitControlsState = from.toJSON();
+    const state: OrbitControlsState = to.toJSON();
+
+    const spherical: THREE.Spherical = new THREE.Spherical( state.spherical.radius, state.spherical.phi, state.spherical.theta );
+    const target: THREE.Vector3 = new THREE.Vector3().fromArray( state.target );
+    let zoom: number = state.zoom;
+
+    if ( this.share.indexOf( 'rotation' ) !== - 1 ) {
+
+      spherical.theta = source.spherical.theta + this.azimuthOffset * direction;
+      spherical.phi = source.spherical.phi + this.polarOffset * direction;
+
+    }
+
+    if ( this.share.indexOf( 'target' ) !== - 1 ) {
+
+      target.fromArray( source.target ).addScaledVector( this.targetOffset, direction );
+
+    }
+
+    if ( this.share.indexOf( 'zoom' ) !== - 1 ) {
+
+      spherical.radius = source.spherical.radius;
+      zoom = source.zoom;
+
+    }
+
+    spherical.makeSafe();
+
+    syncing.push( from );
+
+    // the change this causes in to is passed on along its other links, but not back to from
+    try {
+
+      to.jumpTo( spherical, target, zoom );
+
+    } finally {
+
+      syncing.pop();
+
+    }
+
+  }
+
+}
@@ -0,0 +1,244 @@
+/**
+ * @author redice44 / https://github.com/redice44
+ */
+
+// Replays a session captured by ControlsRecorder on a set of controls, with or without a page.
+// The controls play with the viewport size, settings and limits of the recording, and get their
+// own back in between, so the session replays alike whatever theirs are. camera.up is part of
+// the view, so the camera keeps the recording's once it has been put at the start. While playing,
+// call player.update() in your animation loop instead of controls.update(), and set
+// controls.enabled to false so that pointer and key input does not get mixed in.
+
+import * as THREE from 'three';
+import OrbitControlsCore, { ViewportSize, OrbitControlsState } from './OrbitControlsCore';
+import { Recording, RecordedEntry, RecordedView, RecordedSettings, getSettings, setSettings } from './ControlsRecorder';
+
+type Limits = OrbitControlsState[ 'limits' ];
+
+// null is an unbounded limit that went through JSON
+function setLimits( controls: OrbitControlsCore, limits: Limits ): void {
+
+  Object.keys( limits ).forEach( ( name ) => {
+
+    const limit: number | null = limits[ name ];
+
+    controls[ name ] = limit !== null ? limit : name.indexOf( 'min' ) === 0 ? - Infinity : Infinity;
+
+  } );
+
+}
+
+export default class ControlsPlayer {
+  public readonly controls: OrbitControlsCore;
+  public readonly recording: Recording;
+
+  // 1 plays at the recorded pace, 2 twice as fast; the frames replayed stay the same
+  public speed: number;
+
+  // seconds into the session
+  private time: number;
+
+  // index of the first entry not played yet
+  private next: number;
+
+  // whether the controls have been put at the start of the session
+  private cued: boolean;
+
+  private playing: boolean;
+  private lastUpdateTime: number | null;
+
+  // Takes the recording as the object from ControlsRecorder.stop() or as its JSON string.
+  constructor( controls: OrbitControlsCore, recording: Recording | string ) {
+
+    this.controls = controls;
+    this.recording = typeof recording === 'string' ? JSON.parse( recording ) : recording;
+
+    this.speed = 1;
+
+    this.time = 0;
+    this.next = 0;
+    this.cued = false;
+
+    this.playing = false;
+    this.lastUpdateTime = null;
+
+  }
+
+  get currentTime(): number {
+
+    return this.time;
+
+  }
+
+  get duration(): number {
+
+    return this.recording.duration;
+
+  }
+
+  get paused(): boolean {
+
+    return this.playing === false;
+
+  }
+
+  get ended(): boolean {
+
+    return this.cued && this.time >= this.recording.duration;
+
+  }
+
+  // Plays on from the current time, or from the start once the session has ended.
+  public play(): void {
+
+    if ( this.cued === false || this.ended ) {
+
+      this.seek( 0 );
+
+    }
+
+    this.playing = true;
+    this.lastUpdateTime = null;
+
+  }
+
+  public pause(): void {
+
+    this.playing = false;
+
+  }
+
+  // Puts the camera where it was time seconds into the session. Going back replays
+  // the session from its start, since commands can only be played forward.
+  public seek( time: number ): void {
+
+    time = Math.max( 0, Math.min( this.recording.duration, time ) );
+
+    this.replay( () => {
+
+      if ( this.cued === false || time < this.time ) {
+
+        this.rewind();
+
+      }
+
+      this.playTo( time );
+
+    } );
+
+  }
+
+  // Advances playback by deltaSeconds, scaled by speed. Without it, the elapsed time is
+  // measured since the last update() that measured it. Returns whether it is still playing.
+  public update( deltaSeconds?: number ): boolean {
+
+    if ( deltaSeconds === undefined ) {
+
+      const now: number = performance.now() / 1000;
+
+      // after a stall, such as a hidden tab, carry on from where things were
+      deltaSeconds = this.lastUpdateTime !== null ? Math.min( now - this.lastUpdateTime, 0.1 ) : 0;
+      this.lastUpdateTime = now;
+
+    }
+
+    if ( this.playing === false ) return false;
+
+    const time: number = Math.min( this.time + deltaSeconds * this.speed, this.recording.duration );
+
+    this.replay( () => this.playTo( time ) );
+
+    if ( this.ended ) {
+
+      this.playing = false;
+
+    }
+
+    return this.playing;
+
+  }
+
+  // runs play with the viewport size, settings and limits of the recording, then gives the controls theirs back
+  private replay( play: () => void ): void {
+
+    const controls: OrbitControlsCore = this.controls;
+    const settings: RecordedSettings = getSettings( controls );
+    const limits: Limits = controls.toJSON().limits;
+    const viewportSize: () => ViewportSize = controls.viewportSize;
+    const viewport: ViewportSize = this.recording.viewport;
+
+    setSettings( controls, this.recording.settings );
+    setLimits( controls, this.recording.start.limits );
+    controls.viewportSize = () => viewport;
+
+    try {
+
+      play();
+
+    } finally {
+
+      setSettings( controls, settings );
+      setLimits( controls, limits );
+      controls.viewportSize = viewportSize;
+
+    }
+
+  }
+
+  private rewind(): void {
+
+    this.controls.fromJSON( this.recording.start );
+
+    this.time = 0;
+    this.next = 0;
+    this.cued = true;
+
+  }
+
+  // plays the entries up to time; of the views passed, only the last is shown
+  private playTo( time: number ): void {
+
+    const entries: RecordedEntry[] = this.recording.entries;
+
+    let view: RecordedView | null = null;
+
+    while ( this.next < entries.length && entries[ this.next ].time <= time ) {
+
+      const entry: RecordedEntry = entries[ this.next ];
+
+      this.next ++;
+
+      switch ( entry.type ) {
+
+        case 'command':
+
+          this.controls.input( entry.command );
+          break;
+
+        case 'frame':
+
+          this.controls.update( entry.deltaSeconds );
+          break;
+
+        case 'view':
+
+          view = entry.view;
+          break;
+
+      }
+
+    }
+
+    if ( view !== null ) {
+
+      const spherical: THREE.Spherical = new THREE.Spherical( view.spherical.radius, view.spherical.phi, view.spherical.theta );
+
+      this.controls.jumpTo( spherical, new THREE.Vector3().fromArray( view.target ), view.zoom );
+
+    }
+
+    this.time = time;
+
+  }
+
+}
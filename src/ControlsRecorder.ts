@@ -0,0 +1,179 @@
+/**
+ * @author redice44 / https://github.com/redice44
+ */
+
+// Captures a session of the controls for ControlsPlayer to replay, such as for a bug report,
+// a demo reel or a regression test of camera behavior. Time is the sum of the deltaSeconds
+// passed through update(), so a capture does not depend on the speed of the machine.
+//
+// "commands" records every input command and frame, and replays them through input() and
+// update() to reproduce the session exactly. The viewport size and the settings in
+// RECORDED_SETTINGS are recorded with them and used on replay; targetBounds, colliders, the
+// ground plane and the picker are objects that cannot be, so they must be set up alike.
+// Moves started from code, focusing and held keys are not commands, so a session using them
+// calls for "states".
+// "states" records the view after every change, which replays whatever moved the camera.
+
+import OrbitControlsCore, { ViewportSize, InputCommand, OrbitControlsState, ControlsInputEvent, ControlsUpdateEvent } from './OrbitControlsCore';
+
+export type RecordingMode = 'commands' | 'states';
+
+// where the camera is; spherical is in "y-axis-is-up" space, as in OrbitControlsState
+export interface RecordedView {
+  target: number[];
+  spherical: { radius: number, phi: number, theta: number };
+  zoom: number;
+}
+
+// One step of a session, at time seconds from its start: a command passed to input(),
+// a frame passed to update() or, in "states" mode, the view after a change.
+export type RecordedEntry =
+  { type: 'command', time: number, command: InputCommand } |
+  { type: 'frame', time: number, deltaSeconds: number } |
+  { type: 'view', time: number, view: RecordedView };
+
+// the settings of the controls that change what input commands and frames do
+export const RECORDED_SETTINGS: string[] = [
+  'enableDamping', 'dampingFactor', 'panDampingFactor', 'dollyDampingFactor',
+  'enableZoom', 'zoomToCursor', 'enableRotate', 'rotateSpeed', 'enablePan', 'panMode',
+  'autoRotate', 'autoRotateSpeed', 'rotationMode', 'levelDampingFactor', 'upDampingFactor',
+  'boundaryElasticity', 'collisionMargin', 'collisionDampingFactor'
+];
+
+export type RecordedSettings = { [ name: string ]: number | boolean | string };
+
+// A whole session. It holds only numbers and strings, so JSON.stringify() serializes it.
+export interface Recording {
+  mode: RecordingMode;
+  start: OrbitControlsState; // the state when recording started
+  viewport: ViewportSize; // that the commands are measured in
+  settings: RecordedSettings; // see RECORDED_SETTINGS
+  duration: number; // seconds
+  entries: RecordedEntry[];
+}
+
+export function getSettings( controls: OrbitControlsCore ): RecordedSettings {
+
+  const settings: RecordedSettings = {};
+
+  RECORDED_SETTINGS.forEach( ( name ) => settings[ name ] = controls[ name ] );
+
+  return settings;
+
+}
+
+export function setSettings( controls: OrbitControlsCore, settings: RecordedSettings ): void {
+
+  Object.keys( settings ).forEach( ( name ) => controls[ name ] = settings[ name ] );
+
+}
+
+function getView( state: OrbitControlsState ): RecordedView {
+
+  return {
+    target: state.target.slice(),
+    spherical: { radius: state.spherical.radius, phi: state.spherical.phi, theta: state.spherical.theta },
+    zoom: state.zoom
+  };
+
+}
+
+export default class ControlsRecorder {
+  public readonly controls: OrbitControlsCore;
+  public readonly mode: RecordingMode;
+
+  private recording: Recording | null;
+
+  private onInput: ( event: ControlsInputEvent ) => void;
+  private onUpdate: ( event: ControlsUpdateEvent ) => void;
+  private onChange: () => void;
+
+  constructor( controls: OrbitControlsCore, mode: RecordingMode = 'commands' ) {
+
+    this.controls = controls;
+    this.mode = mode;
+
+    this.recording = null;
+
+    this.onInput = ( event ) => this.add( { type: 'command', time: this.recording.duration, command: event.command } );
+
+    this.onUpdate = ( event ) => {
+
+      this.recording.duration += event.deltaSeconds;
+
+      if ( this.mode === 'commands' ) {
+
+        this.add( { type: 'frame', time: this.recording.duration, deltaSeconds: event.deltaSeconds } );
+
+      }
+
+    };
+
+    this.onChange = () => this.add( { type: 'view', time: this.recording.duration, view: getView( this.controls.toJSON() ) } );
+
+  }
+
+  get isRecording(): boolean {
+
+    return this.recording !== null;
+
+  }
+
+  // Starts a new capture from the current state, discarding one in progress.
+  // Start while the camera is at rest: motion still to come from inertia is not recorded.
+  public start(): void {
+
+    this.detach();
+
+    const viewport: ViewportSize = this.controls.viewportSize();
+
+    this.recording = {
+      mode: this.mode,
+      start: this.controls.toJSON(),
+      viewport: { width: viewport.width, height: viewport.height },
+      settings: getSettings( this.controls ),
+      duration: 0,
+      entries: []
+    };
+
+    if ( this.mode === 'commands' ) {
+
+      this.controls.addEventListener( 'input', this.onInput );
+
+    } else {
+
+      this.controls.addEventListener( 'change', this.onChange );
+
+    }
+
+    this.controls.addEventListener( 'update', this.onUpdate );
+
+  }
+
+  // Ends the capture and returns it; null if none was started.
+  public stop(): Recording | null {
+
+    const recording: Recording | null = this.recording;
+
+    this.detach();
+    this.recording = null;
+
+    return recording;
+
+  }
+
+  private add( entry: RecordedEntry ): void {
+
+    this.recording.entries.push( entry );
+
+  }
+
+  private detach(): void {
+
+    this.controls.removeEventListener( 'input', this.onInput );
+    this.controls.removeEventListener( 'change', this.onChange );
+    this.controls.removeEventListener( 'update', this.onUpdate );
+
+  }
+
+}
@@ -0,0 +1,423 @@
+/**
+ * @author redice44 / https://github.com/redice44
+ */
+
+// Flies the camera along a path through a list of viewpoints, such as a turntable tour of a product.
+// The path is a Catmull-Rom spline through the azimuth, polar angle, distance, zoom and target of
+// the keyframes, so it passes through each viewpoint without stopping unless an easing says so.
+//
+// The tour moves on whenever controls.update() is called, so keep calling it in your animation loop.
+// A gesture pauses the tour, unless pauseOnInteraction is false; once the camera has been left
+// alone for resumeDelay seconds, it eases back onto the path and carries on. Turn autoRotate off
+// while a tour plays.
+
+import * as THREE from 'three';
+import OrbitControlsCore, { OrbitControlsState, ControlsUpdateEvent } from './OrbitControlsCore';
+import { lerp, easeInOutCubic, getTurn } from './MathUtils';
+
+export interface TourKeyframe {
+  target: THREE.Vector3;
+  azimuthAngle: number; // radians
+  polarAngle: number; // radians
+  distance: number;
+  zoom?: number; // camera.zoom, 1 unless given
+  duration?: number; // seconds on to the next keyframe, 2 unless given
+  easing?: ( t: number ) => number; // over the way to the next keyframe, steady unless given
+}
+
+// a view along the path; theta may be unwound past PI, so that the tour turns the short way
+interface TourView {
+  spherical: THREE.Spherical;
+  target: THREE.Vector3;
+  zoom: number;
+}
+
+// where the camera was when the tour took it back, and how far it is back on the path
+interface Blend {
+  from: TourView;
+  elapsed: number;
+}
+
+function linear( t: number ): number {
+
+  return t;
+
+}
+
+// the value at t, from 0 to 1, between p1 and p2 of a uniform Catmull-Rom spline
+function catmullRom( p0: number, p1: number, p2: number, p3: number, t: number ): number {
+
+  const v0: number = ( p2 - p0 ) / 2;
+  const v1: number = ( p3 - p1 ) / 2;
+
+  return ( ( 2 * p1 - 2 * p2 + v0 + v1 ) * t + ( - 3 * p1 + 3 * p2 - 2 * v0 - v1 ) ) * t * t + v0 * t + p1;
+
+}
+
+function getStateView( state: OrbitControlsState ): TourView {
+
+  return {
+    spherical: new THREE.Spherical( state.spherical.radius, state.spherical.phi, state.spherical.theta ),
+    target: new THREE.Vector3().fromArray( state.target ),
+    zoom: state.zoom
+  };
+
+}
+
+export default class ControlsTour {
+  public readonly controls: OrbitControlsCore;
+
+  public keyframes: TourKeyframe[];
+
+  // Set to true to go from the last keyframe back to the first and round again
+  public loop: boolean;
+
+  // Set to false to keep the tour playing through gestures. It puts the camera back on the path
+  // on every update(), so gestures have no lasting effect; set controls.enabled to false as well
+  // to keep them from moving the camera at all.
+  public pauseOnInteraction: boolean;
+
+  public resumeDelay: number; // seconds the camera is left alone before the tour resumes; Infinity to wait for play()
+  public resumeDuration: number; // seconds to ease back onto the path, also when the tour starts
+
+  // seconds into the tour
+  private time: number;
+
+  private playing: boolean;
+
+  // whether a gesture has taken over the camera, and for how long it has been left alone since
+  private interrupted: boolean;
+  private interacting: boolean;
+  private idle: number;
+
+  private blend: Blend | null;
+
+  // whether the change in progress is the tour's own
+  private moving: boolean;
+
+  private onUpdate: ( event: ControlsUpdateEvent ) => void;
+  private onStart: () => void;
+  private onEnd: () => void;
+  private onChange: () => void;
+
+  constructor( controls: OrbitControlsCore, keyframes: TourKeyframe[] = [] ) {
+
+    this.controls = controls;
+    this.keyframes = keyframes;
+
+    this.loop = false;
+    this.pauseOnInteraction = true;
+    this.resumeDelay = 3;
+    this.resumeDuration = 1;
+
+    this.time = 0;
+    this.playing = false;
+
+    this.interrupted = false;
+    this.interacting = false;
+    this.idle = 0;
+
+    this.blend = null;
+    this.moving = false;
+
+    this.onUpdate = ( event ) => this.advance( event.deltaSeconds );
+
+    this.onStart = () => {
+
+      if ( this.moving || this.playing === false || this.pauseOnInteraction === false ) return;
+
+      this.interrupted = true;
+      this.interacting = true;
+      this.blend = null;
+
+    };
+
+    this.onEnd = () => {
+
+      this.interacting = false;
+      this.idle = 0;
+
+    };
+
+    // inertia after a gesture keeps the tour waiting
+    this.onChange = () => {
+
+      if ( this.moving === false ) this.idle = 0;
+
+    };
+
+    controls.addEventListener( 'update', this.onUpdate );
+    controls.addEventListener( 'start', this.onStart );
+    controls.addEventListener( 'end', this.onEnd );
+    controls.addEventListener( 'change', this.onChange );
+
+  }
+
+  // seconds from the first keyframe to the last, or round to the first again when looping
+  get duration(): number {
+
+    return this.getKeyframeTime( this.getSegmentCount() );
+
+  }
+
+  get currentTime(): number {
+
+    return this.time;
+
+  }
+
+  get paused(): boolean {
+
+    return this.playing === false || this.interrupted;
+
+  }
+
+  get ended(): boolean {
+
+    return this.loop === false && this.time >= this.duration;
+
+  }
+
+  // Plays on from the current time, or from the start once the tour has ended,
+  // easing over from wherever the camera is.
+  public play(): void {
+
+    if ( this.keyframes.length < 2 ) {
+
+      console.warn( 'THREE.ControlsTour: a tour needs at least two keyframes.' );
+      return;
+
+    }
+
+    if ( this.ended ) {
+
+      this.time = 0;
+
+    }
+
+    this.playing = true;
+    this.interrupted = false;
+    this.interacting = false;
+
+    this.startBlend();
+
+  }
+
+  public pause(): void {
+
+    this.playing = false;
+
+  }
+
+  // Goes to time seconds into the tour, moving the camera there if the tour is playing.
+  public seek( time: number ): void {
+
+    const duration: number = this.duration;
+
+    this.time = this.loop && duration > 0 ? THREE.Math.euclideanModulo( time, duration ) : Math.max( 0, Math.min( duration, time ) );
+
+    if ( this.playing && this.interrupted === false ) {
+
+      this.blend = null;
+      this.show( 0 );
+
+    }
+
+  }
+
+  // The view time seconds into the tour.
+  public getView( time: number ): { spherical: THREE.Spherical, target: THREE.Vector3, zoom: number } {
+
+    const view: TourView = this.getPathView( time );
+
+    view.spherical.makeSafe();
+
+    return view;
+
+  }
+
+  public dispose(): void {
+
+    this.controls.removeEventListener( 'update', this.onUpdate );
+    this.controls.removeEventListener( 'start', this.onStart );
+    this.controls.removeEventListener( 'end', this.onEnd );
+    this.controls.removeEventListener( 'change', this.onChange );
+
+  }
+
+  // moves the tour on by deltaSeconds; called on every update() of the controls
+  private advance( deltaSeconds: number ): void {
+
+    if ( this.playing === false || this.keyframes.length < 2 ) return;
+
+    if ( this.interrupted ) {
+
+      if ( this.interacting === false ) this.idle += deltaSeconds;
+
+      if ( this.idle < this.resumeDelay ) return;
+
+      this.interrupted = false;
+      this.startBlend();
+
+    }
+
+    const duration: number = this.duration;
+
+    this.time += deltaSeconds;
+
+    if ( this.time >= duration ) {
+
+      if ( this.loop && duration > 0 ) {
+
+        this.time = THREE.Math.euclideanModulo( this.time, duration );
+
+      } else {
+
+        this.time = duration;
+        this.playing = false;
+
+      }
+
+    }
+
+    this.show( deltaSeconds );
+
+  }
+
+  // eases from the camera's view onto the path over resumeDuration
+  private startBlend(): void {
+
+    this.blend = { from: getStateView( this.controls.toJSON() ), elapsed: 0 };
+
+    this.show( 0 );
+
+  }
+
+  // puts the camera on the path at the current time, or part way there while blending
+  private show( deltaSeconds: number ): void {
+
+    const view: TourView = this.getPathView( this.time );
+
+    if ( this.blend !== null ) {
+
+      const blend: Blend = this.blend;
+
+      blend.elapsed += deltaSeconds;
+
+      const t: number = this.resumeDuration > 0 ? Math.min( blend.elapsed / this.resumeDuration, 1 ) : 1;
+      const alpha: number = easeInOutCubic( t );
+
+      const from: THREE.Spherical = blend.from.spherical;
+
+      view.spherical.theta = view.spherical.theta - ( 1 - alpha ) * getTurn( from.theta, view.spherical.theta );
+      view.spherical.phi = lerp( from.phi, view.spherical.phi, alpha );
+      view.spherical.radius = lerp( from.radius, view.spherical.radius, alpha );
+      view.target.lerpVectors( blend.from.target, view.target, alpha );
+      view.zoom = lerp( blend.from.zoom, view.zoom, alpha );
+
+      if ( t === 1 ) this.blend = null;
+
+    }
+
+    view.spherical.makeSafe();
+
+    this.moving = true;
+
+    this.controls.jumpTo( view.spherical, view.target, view.zoom );
+
+    this.moving = false;
+
+  }
+
+  private getSegmentCount(): number {
+
+    const count: number = this.keyframes.length;
+
+    return count < 2 ? 0 : this.loop ? count : count - 1;
+
+  }
+
+  // the time the tour reaches keyframe index
+  private getKeyframeTime( index: number ): number {
+
+    let time: number = 0;
+
+    for ( let i = 0; i < index; i ++ ) {
+
+      time += this.getKeyframeDuration( i );
+
+    }
+
+    return time;
+
+  }
+
+  private getKeyframeDuration( index: number ): number {
+
+    const duration: number | undefined = this.keyframes[ index ].duration;
+
+    return duration !== undefined ? duration : 2;
+
+  }
+
+  // the keyframe at index, wrapped round when looping and held at the ends otherwise
+  private getKeyframe( index: number ): TourKeyframe {
+
+    const count: number = this.keyframes.length;
+
+    return this.keyframes[ this.loop ? THREE.Math.euclideanModulo( index, count ) : Math.max( 0, Math.min( count - 1, index ) ) ];
+
+  }
+
+  private getPathView( time: number ): TourView {
+
+    const segments: number = this.getSegmentCount();
+
+    // the keyframe the tour last passed, and how far it is along the way to the next
+    let index: number = 0;
+    let start: number = 0;
+
+    while ( index < segments - 1 && time >= start + this.getKeyframeDuration( index ) ) {
+
+      start += this.getKeyframeDuration( index );
+      index ++;
+
+    }
+
+    const duration: number = this.getKeyframeDuration( index );
+    const k1: TourKeyframe = this.getKeyframe( index );
+    const t: number = ( k1.easing !== undefined ? k1.easing : linear )( duration > 0 ? Math.min( ( time - start ) / duration, 1 ) : 1 );
+
+    const k0: TourKeyframe = this.getKeyframe( index - 1 );
+    const k2: TourKeyframe = this.getKeyframe( index + 1 );
+    const k3: TourKeyframe = this.getKeyframe( index + 2 );
+
+    // unwind the azimuths so that each turn to the next keyframe goes the short way
+    const theta1: number = k1.azimuthAngle;
+    const theta0: number = theta1 - getTurn( k0.azimuthAngle, theta1 );
+    const theta2: number = theta1 + getTurn( theta1, k2.azimuthAngle );
+    const theta3: number = theta2 + getTurn( theta2, k3.azimuthAngle );
+
+    const spline: ( get: ( keyframe: TourKeyframe ) => number ) => number = ( get ) => catmullRom( get( k0 ), get( k1 ), get( k2 ), get( k3 ), t );
+
+    // distance and zoom are splined by their logarithm, which keeps them positive
+    const logDistance: ( keyframe: TourKeyframe ) => number = ( keyframe ) => Math.log( keyframe.distance );
+    const logZoom: ( keyframe: TourKeyframe ) => number = ( keyframe ) => Math.log( keyframe.zoom !== undefined ? keyframe.zoom : 1 );
+
+    return {
+      spherical: new THREE.Spherical(
+        Math.exp( spline( logDistance ) ),
+        spline( ( keyframe ) => keyframe.polarAngle ),
+        catmullRom( theta0, theta1, theta2, theta3, t )
+      ),
+      target: new THREE.Vector3(
+        spline( ( keyframe ) => keyframe.target.x ),
+        spline( ( keyframe ) => keyframe.target.y ),
+        spline( ( keyframe ) => keyframe.target.z )
+      ),
+      zoom: Math.exp( spline( logZoom ) )
+    };
+
+  }
+
+}
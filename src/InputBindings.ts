@@ -0,0 +1,171 @@
+/**
+ * @author redice44 / https://github.com/redice44
+ */
+
+// Which pointer input drives which camera action.
+// A binding matches a mouse or pen button, or a number of touching fingers, plus modifier keys.
+// Modifiers left out of a binding match whether or not they are held; when several bindings
+// match, the one naming the most modifiers wins, so Shift + left button can pan while left rotates.
+
+import * as THREE from 'three';
+
+export enum Action {
+  NONE = 'none',
+  ROTATE = 'rotate',
+  DOLLY = 'dolly',
+  PAN = 'pan'
+}
+
+export interface Binding {
+  button?: THREE.MOUSE; // mouse or pen button
+  fingers?: number; // number of touching fingers
+  shift?: boolean;
+  ctrl?: boolean;
+  alt?: boolean;
+  meta?: boolean;
+  action: Action;
+}
+
+export interface Modifiers {
+  shiftKey: boolean;
+  ctrlKey: boolean;
+  altKey: boolean;
+  metaKey: boolean;
+}
+
+export const BindingPresets: { [ name: string ]: Binding[] } = {
+
+  default: [
+    { button: THREE.MOUSE.LEFT, action: Action.ROTATE },
+    { button: THREE.MOUSE.MIDDLE, action: Action.DOLLY },
+    { button: THREE.MOUSE.RIGHT, action: Action.PAN },
+    { fingers: 1, action: Action.ROTATE },
+    { fingers: 2, action: Action.DOLLY },
+    { fingers: 3, action: Action.PAN }
+  ],
+
+  Blender: [
+    { button: THREE.MOUSE.MIDDLE, action: Action.ROTATE },
+    { button: THREE.MOUSE.MIDDLE, shift: true, action: Action.PAN },
+    { button: THREE.MOUSE.MIDDLE, ctrl: true, action: Action.DOLLY },
+    { fingers: 1, action: Action.ROTATE },
+    { fingers: 2, action: Action.DOLLY },
+    { fingers: 3, action: Action.PAN }
+  ],
+
+  Maya: [
+    { button: THREE.MOUSE.LEFT, alt: true, action: Action.ROTATE },
+    { button: THREE.MOUSE.MIDDLE, alt: true, action: Action.PAN },
+    { button: THREE.MOUSE.RIGHT, alt: true, action: Action.DOLLY },
+    { fingers: 1, action: Action.ROTATE },
+    { fingers: 2, action: Action.DOLLY },
+    { fingers: 3, action: Action.PAN }
+  ]
+
+};
+
+const MODIFIERS: string[] = [ 'shift', 'ctrl', 'alt', 'meta' ];
+
+export function countModifiers( binding: Binding ): number {
+
+  return MODIFIERS.filter( ( name ) => binding[ name ] !== undefined ).length;
+
+}
+
+function matchesModifiers( binding: Binding, modifiers: Modifiers ): boolean {
+
+  return ( binding.shift === undefined || binding.shift === modifiers.shiftKey ) &&
+    ( binding.ctrl === undefined || binding.ctrl === modifiers.ctrlKey ) &&
+    ( binding.alt === undefined || binding.alt === modifiers.altKey ) &&
+    ( binding.meta === undefined || binding.meta === modifiers.metaKey );
+
+}
+
+// the trigger of a binding as a string, to spot two bindings competing for the same input
+function getTrigger( binding: Binding ): string {
+
+  const input: string = binding.button !== undefined ? 'button ' + binding.button : 'fingers ' + binding.fingers;
+
+  return input + MODIFIERS.map( ( name ) => ' ' + name + '=' + binding[ name ] ).join( '' );
+
+}
+
+// Returns a description of the first problem found in bindings, or null when they are valid.
+export function validateBindings( bindings: Binding[] ): string | null {
+
+  const actions: string[] = Object.keys( Action ).map( ( key ) => Action[ key ] );
+  const triggers: { [ trigger: string ]: boolean } = {};
+
+  for ( let i = 0; i < bindings.length; i ++ ) {
+
+    const binding: Binding = bindings[ i ];
+
+    if ( ( binding.button === undefined ) === ( binding.fingers === undefined ) ) {
+
+      return 'binding ' + i + ' must have either a button or a finger count';
+
+    }
+
+    if ( binding.button !== undefined && [ THREE.MOUSE.LEFT, THREE.MOUSE.MIDDLE, THREE.MOUSE.RIGHT ].indexOf( binding.button ) === - 1 ) {
+
+      return 'binding ' + i + ' has an unknown button ' + binding.button;
+
+    }
+
+    if ( binding.fingers !== undefined && ( binding.fingers % 1 !== 0 || binding.fingers < 1 ) ) {
+
+      return 'binding ' + i + ' has an invalid finger count ' + binding.fingers;
+
+    }
+
+    if ( actions.indexOf( binding.action ) === - 1 ) {
+
+      return 'binding ' + i + ' has an unknown action ' + binding.action;
+
+    }
+
+    // a pinch needs two fingers to measure
+    if ( binding.action === Action.DOLLY && binding.fingers !== undefined && binding.fingers < 2 ) {
+
+      return 'binding ' + i + ' dollies with fewer than two fingers';
+
+    }
+
+    const trigger: string = getTrigger( binding );
+
+    if ( triggers[ trigger ] === true ) {
+
+      return 'binding ' + i + ' repeats the input of an earlier binding';
+
+    }
+
+    triggers[ trigger ] = true;
+
+  }
+
+  return null;
+
+}
+
+// Picks the action for a button or a finger count; Action.NONE when nothing matches.
+export function findAction( bindings: Binding[], input: { button?: number, fingers?: number }, modifiers: Modifiers ): Action {
+
+  let best: Binding | null = null;
+
+  bindings.forEach( ( binding ) => {
+
+    if ( input.button !== undefined && binding.button !== input.button ) return;
+    if ( input.fingers !== undefined && binding.fingers !== input.fingers ) return;
+    if ( matchesModifiers( binding, modifiers ) === false ) return;
+
+    if ( best === null || countModifiers( binding ) > countModifiers( best ) ) {
+
+      best = binding;
+
+    }
+
+  } );
+
+  return best !== null ? best.action : Action.NONE;
+
+}
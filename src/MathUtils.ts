@@ -0,0 +1,27 @@
+/**
+ * @author redice44 / https://github.com/redice44
+ */
+
+// Small helpers shared by the controls and the tour.
+
+import * as THREE from 'three';
+
+export function lerp( from: number, to: number, alpha: number ): number {
+
+  return from + ( to - from ) * alpha;
+
+}
+
+// ease in and out, cubic
+export function easeInOutCubic( t: number ): number {
+
+  return t < 0.5 ? 4 * t * t * t : 1 - Math.pow( - 2 * t + 2, 3 ) / 2;
+
+}
+
+// the turn from angle a to angle b, between - PI and PI
+export function getTurn( a: number, b: number ): number {
+
+  return THREE.Math.euclideanModulo( b - a + Math.PI, 2 * Math.PI ) - Math.PI;
+
+}
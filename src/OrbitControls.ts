@@ -10,17 +10,55 @@
 // This set of controls performs orbiting, dollying (zooming), and panning.
 // Unlike TrackballControls, it maintains the "up" direction object.up (+Y by default).
 //
-//    Orbit - left mouse / touch: one finger move
+//    Orbit - left mouse or pen / touch: one finger move
 //    Zoom - middle mouse, or mousewheel / touch: two finger spread or squish
-//    Pan - right mouse, or arrow keys / touch: three finger swipe
+//    Pan - right mouse, or arrow keys / touch: two or three finger swipe
+//
+// Two fingers dolly, pan and, with enableTwist, turn the view all at once.
+//
+// With a picker set, a double click or double tap orbits around the point under it,
+// and with rotateAroundPointer each rotation turns about the point where it starts.
+//
+// Keys also rotate (W A S D), dolly (+ -) and reset (R). They are read from the
+// element, which is made focusable, so only a focused view takes keyboard input.
+//
+// Buttons, finger counts and modifier keys can be rebound; see InputBindings.
+//
+// Mouse, pen and touch input all arrive as Pointer Events and are tracked by pointerId.
+// Several controls can share one canvas, each with its own viewport; see viewport.
+// This class binds the DOM; the camera math lives in OrbitControlsCore.
 
 import * as THREE from 'three';
-
-interface ArrowKeys {
-  LEFT: number,
-  UP: number,
-  RIGHT: number,
-  BOTTOM: number
+import OrbitControlsCore, { Gesture, InputSource } from './OrbitControlsCore';
+import { Action, Binding, BindingPresets, validateBindings, findAction, countModifiers } from './InputBindings';
+import { getTurn } from './MathUtils';
+
+export { default as OrbitControlsCore } from './OrbitControlsCore';
+export {
+  ViewportSize, InputCommand, PickCallback, TargetConstraint, TransitionOptions, AnimateOptions, FitOptions, OrbitControlsState,
+  RotationMode, PanMode, Gesture, InputSource, Limit, ControlsSnapshot, ControlsEvent, ControlsChangeEvent, ControlsGestureEvent, ControlsInertiaEndEvent,
+  ControlsLimitReachedEvent, ControlsFocusEvent, ControlsPivotEvent, ControlsConstraintEvent, ControlsInputEvent, ControlsUpdateEvent,
+  OrbitControlsEventMap
+} from './OrbitControlsCore';
+export { Action, Binding, BindingPresets } from './InputBindings';
+export { default as ControlsLink, LinkOptions, LinkedProperty } from './ControlsLink';
+export { default as ControlsRecorder, RecordingMode, RecordedView, RecordedEntry, Recording } from './ControlsRecorder';
+export { default as ControlsPlayer } from './ControlsPlayer';
+export { default as ControlsTour, TourKeyframe } from './ControlsTour';
+
+// KeyboardEvent.code of the key for each action
+interface KeyBindings {
+  LEFT: string,
+  UP: string,
+  RIGHT: string,
+  BOTTOM: string,
+  ROTATE_LEFT: string,
+  ROTATE_UP: string,
+  ROTATE_RIGHT: string,
+  ROTATE_DOWN: string,
+  DOLLY_IN: string,
+  DOLLY_OUT: string,
+  RESET: string
 }
 
 interface MouseButtons {
@@ -35,91 +73,179 @@ enum STATE {
   DOLLY,
   PAN,
   TOUCH_ROTATE,
-  TOUCH_DOLLY,
+  TOUCH_PINCH,
   TOUCH_PAN
 }
 
-enum Events {
-  change = 'change',
-  start = 'start',
-  end = 'end'
+// Where a pinch started, and which of its motions have passed their threshold.
+// A motion stays ignored until it does, so an uneven pinch does not drift.
+interface Pinch {
+  distance: number;
+  center: THREE.Vector2;
+  angle: number;
+  dolly: boolean;
+  pan: boolean;
+  twist: boolean;
 }
 
-export default class OrbitControls extends THREE.EventDispatcher {
-  // Set to false to disable this control
-  public enabled: boolean;
+// A region of the element, in CSS pixels measured from its bottom left corner
+// as for renderer.setViewport(), so the same numbers can be passed to both
+export interface ViewportRect {
+  x: number,
+  y: number,
+  width: number,
+  height: number
+}
+
+// The content box of an element in client coordinates. A CSS transform scales the box
+// on screen but not the layout size, so a client pixel is scaleX by scaleY CSS pixels.
+interface ElementRect {
+  left: number,
+  top: number,
+  width: number,
+  height: number,
+  scaleX: number,
+  scaleY: number
+}
 
-  // "target" sets the location of focus, where the object orbits around
-  public target: THREE.Vector3;
+// the input that started the gesture in progress
+type GestureOwner = 'pointer' | 'wheel' | 'keys';
 
-  // How far you can dolly in and out ( PerspectiveCamera only )
-  public minDistance: number;
-  public maxDistance: number;
+// wheel events this many milliseconds apart make one gesture
+const WHEEL_END_DELAY: number = 150;
 
-  // How far you can zoom in and out ( OrthographicCamera only )
-  public minZoom: number;
-  public maxZoom: number;
+// a second press within this many milliseconds and pixels of the first is a double click or tap
+const DOUBLE_TAP_TIME: number = 300;
+const DOUBLE_TAP_DISTANCE: number = 10;
 
-  // How far you can orbit vertically, upper and lower limits.
-  // Range is 0 to Math.PI radians.
-  public minPolarAngle: number; // radians
-  public maxPolarAngle: number; // radians
+function getStateGesture( state: STATE ): Gesture {
 
-  // How far you can orbit horizontally, upper and lower limits.
-  // If set, must be a sub-interval of the interval [ - Math.PI, Math.PI ].
-  public minAzimuthAngle: number; // radians
-  public maxAzimuthAngle: number ; // radians
+  switch ( state ) {
 
-  // Set to true to enable damping (inertia)
-  // If damping is enabled, you must call controls.update() in your animation loop
-  public enableDamping: boolean;
-  public dampingFactor: number;
+    case STATE.ROTATE:
+    case STATE.TOUCH_ROTATE:
+      return 'rotate';
 
-  // This option actually enables dollying in and out; left as "zoom" for backwards compatibility.
-  // Set to false to disable zooming
-  public enableZoom: boolean;
-  public zoomSpeed: number;
+    case STATE.DOLLY:
+      return 'dolly';
 
-  // Set to false to disable rotating
-  public enableRotate: boolean;
-  public rotateSpeed: number;
+    case STATE.TOUCH_PINCH:
+      return 'pinch';
+
+    default:
+      return 'pan';
+
+  }
 
-  // Set to false to disable panning
-  public enablePan: boolean;
-  public keyPanSpeed: number;  // pixels moved per arrow key push
+}
+
+// the gesture of a name in keys
+function getKeyGesture( name: string ): Gesture {
+
+  return name.indexOf( 'ROTATE' ) === 0 ? 'rotate' : name.indexOf( 'DOLLY' ) === 0 ? 'dolly' : 'pan';
+
+}
+
+// form fields inside the element keep their own keys
+function isEditable( target: EventTarget | null ): boolean {
+
+  const element: HTMLElement = target as HTMLElement;
+
+  if ( element === null || element.tagName === undefined ) return false;
+
+  return element.isContentEditable === true || [ 'INPUT', 'TEXTAREA', 'SELECT' ].indexOf( element.tagName ) !== - 1;
+
+}
 
-  // Set to true to automatically rotate around the target
-  // If auto-rotate is enabled, you must call controls.update() in your animation loop
-  public autoRotate: boolean;
-  public autoRotateSpeed: number; // 30 seconds per round when fps is 60
+// copies of the bindings, so that no one else can change them past validateBindings()
+function copyBindings( bindings: Binding[] ): Binding[] {
+
+  return bindings.map( ( binding ) => ( { ...binding } ) );
+
+}
+
+// the document is the window it is shown in
+function getElementRect( domElement: Document | Element ): ElementRect {
+
+  if ( domElement === document ) {
+
+    return { left: 0, top: 0, width: window.innerWidth, height: window.innerHeight, scaleX: 1, scaleY: 1 };
+
+  }
+
+  const element: HTMLElement = domElement as HTMLElement;
+  const rect: ClientRect = element.getBoundingClientRect();
+
+  const scaleX: number = element.offsetWidth > 0 ? rect.width / element.offsetWidth : 1;
+  const scaleY: number = element.offsetHeight > 0 ? rect.height / element.offsetHeight : 1;
+
+  return {
+    left: rect.left + element.clientLeft * scaleX,
+    top: rect.top + element.clientTop * scaleY,
+    width: element.clientWidth,
+    height: element.clientHeight,
+    scaleX: scaleX,
+    scaleY: scaleY
+  };
+
+}
+
+export default class OrbitControls extends OrbitControlsCore {
+  public keyPanSpeed: number;  // pixels moved per second while an arrow key is held
+  public keyRotateSpeed: number; // radians turned per second while a rotate key is held
+  public keyDollySpeed: number; // factor the distance changes by per second while a dolly key is held
 
   // Set to false to disable use of the keys
+  // Keys move the camera while held, so you must call controls.update() in your animation loop
   public enableKeys: boolean;
 
-  // The four arrow keys
-  public keys: ArrowKeys;
+  // The keys for each action, by KeyboardEvent.code
+  public keys: KeyBindings;
+
+  // Set to true to rotate about the point picked under the pointer rather than the target
+  // The picker decides the point, from a raycast or from a depth read of your own
+  public rotateAroundPointer: boolean;
+
+  // Set to true to turn the view by twisting two fingers
+  public enableTwist: boolean;
+
+  // The part of the element the camera renders to, or a function returning it; null for all of it
+  // Only presses and wheel turns inside the viewport start gestures here
+  public viewport: ViewportRect | ( () => ViewportRect ) | null;
 
-  // Mouse buttons
-  public mouseButtons: MouseButtons;
+  // How far a pinch must go before each of its motions takes effect
+  public touchDollyThreshold: number; // pixels of change in finger spread
+  public touchPanThreshold: number; // pixels moved by the midpoint
+  public touchTwistThreshold: number; // radians
 
-  private camera: THREE.PerspectiveCamera | THREE.OrthographicCamera;
+  // buttons and finger counts mapped to actions, see the bindings accessors
+  private inputBindings: Binding[];
+
+  // the element listened to; kept after disconnect() so that sizes stay valid
   private domElement: Document | Element;
+  private connected: boolean;
+
+  // listeners bound to this instance once, so that removeEventListener finds them again
+  private elementListeners: { [ type: string ]: EventListener };
+  private windowListeners: { [ type: string ]: EventListener };
+
+  // whether the last press on the element was inside the viewport, which gives the keys to these controls
+  private pressedInside: boolean;
 
-  // for reset
-  private target0: THREE.Vector3;
-  private position0: THREE.Vector3;
-  private zoom0: number;
+  // whether connect() made the element focusable, so that disconnect() can undo it
+  private addedTabIndex: boolean;
+
+  // touch-action of the element before connect(), restored by disconnect()
+  private touchAction: string | null;
 
   private state: STATE;
-  private EPS: number;
 
-  // current position in spherical coordinates
-  private spherical: THREE.Spherical;
-  private sphericalDelta: THREE.Spherical;
+  // which input started the gesture reported to the core, so that another can end it first
+  private gestureOwner: GestureOwner | null;
+  private wheelTimer: number | null;
 
-  private scale: number;
-  private panOffset: THREE.Vector3;
-  private zoomChanged: boolean;
+  // actions whose keys are currently held, by name in keys
+  private keysDown: { [ name: string ]: boolean };
 
   private rotateStart: THREE.Vector2;
   private rotateEnd: THREE.Vector2;
@@ -132,91 +258,83 @@ export default class OrbitControls extends THREE.EventDispatcher {
   private dollyStart: THREE.Vector2;
   private dollyEnd: THREE.Vector2;
   private dollyDelta: THREE.Vector2;
+  private dollyPointer: THREE.Vector2;
 
-  constructor( camera: THREE.PerspectiveCamera | THREE.OrthographicCamera, domElement: Document | Element = document ) {
+  private twistStart: number;
+  private pinch: Pinch | null;
 
-    super();
+  // the last single press, to spot a double click or tap
+  private lastTapTime: number;
+  private lastTapPosition: THREE.Vector2;
 
-    this.camera = camera;
-    this.domElement = domElement;
-
-    // Default Settings
-    this.setupDefaults();
-
-    this.setupHandlers();
-    this.update();
-
-  }
-
-  private setupDefaults() {
+  // active pointers, in the order they went down
+  private pointers: number[];
+  private pointerPositions: { [ pointerId: number ]: THREE.Vector2 };
+  private pointerType: string;
 
-    // Set to false to disable this control
-    this.enabled = true;
-
-    // "target" sets the location of focus, where the camera orbits around
-    this.target = new THREE.Vector3()
-
-    // How far you can dolly in and out ( PerspectiveCamera only )
-    this.minDistance = 0;
-    this.maxDistance = Infinity;
-
-    // How far you can zoom in and out ( OrthographicCamera only )
-    this.minZoom = 0;
-    this.maxZoom = Infinity;
+  constructor( camera: THREE.PerspectiveCamera | THREE.OrthographicCamera, domElement: Document | Element = document ) {
 
-    // How far you can orbit vertically, upper and lower limits.
-    // Range is 0 to Math.PI radians.
-    this.minPolarAngle = 0; // radians
-    this.maxPolarAngle = Math.PI; // radians
+    super( camera, () => getElementRect( domElement ) );
 
-    // How far you can orbit horizontally, upper and lower limits.
-    // If set, must be a sub-interval of the interval [ - Math.PI, Math.PI ].
-    this.minAzimuthAngle = - Infinity; // radians
-    this.maxAzimuthAngle = Infinity; // radians
+    // follow the element across connect() calls, and the viewport within it
+    this.viewportSize = () => this.getViewportRect();
 
-    // Set to true to enable damping (inertia)
-    // If damping is enabled, you must call controls.update() in your animation loop
-    this.enableDamping = false;
-    this.dampingFactor = 0.25;
+    this.connect( domElement );
 
-    // This option actually enables dollying in and out; left as "zoom" for backwards compatibility.
-    // Set to false to disable zooming
-    this.enableZoom = true;
-    this.zoomSpeed = 1.0;
+  }
 
-    // Set to false to disable rotating
-    this.enableRotate = true;
-    this.rotateSpeed = 1.0;
+  protected setupDefaults() {
 
-    // Set to false to disable panning
-    this.enablePan = true;
-    this.keyPanSpeed = 7.0;  // pixels moved per arrow key push
+    super.setupDefaults();
 
-    // Set to true to automatically rotate around the target
-    // If auto-rotate is enabled, you must call controls.update() in your animation loop
-    this.autoRotate = false;
-    this.autoRotateSpeed = 2.0; // 30 seconds per round when fps is 60
+    this.keyPanSpeed = 400.0;  // pixels moved per second while an arrow key is held
+    this.keyRotateSpeed = Math.PI / 2; // radians turned per second while a rotate key is held
+    this.keyDollySpeed = 2.0; // factor the distance changes by per second while a dolly key is held
 
     // Set to false to disable use of the keys
+    // Keys move the camera while held, so you must call controls.update() in your animation loop
     this.enableKeys = true;
 
-    // The four arrow keys
-    this.keys = { LEFT: 37, UP: 38, RIGHT: 39, BOTTOM: 40 };
-
-    // Mouse buttons
-    this.mouseButtons = { ORBIT: THREE.MOUSE.LEFT, ZOOM: THREE.MOUSE.MIDDLE, PAN: THREE.MOUSE.RIGHT };
+    // The keys for each action, by KeyboardEvent.code
+    this.keys = {
+      LEFT: 'ArrowLeft',
+      UP: 'ArrowUp',
+      RIGHT: 'ArrowRight',
+      BOTTOM: 'ArrowDown',
+      ROTATE_LEFT: 'KeyA',
+      ROTATE_UP: 'KeyW',
+      ROTATE_RIGHT: 'KeyD',
+      ROTATE_DOWN: 'KeyS',
+      DOLLY_IN: 'Equal',
+      DOLLY_OUT: 'Minus',
+      RESET: 'KeyR'
+    };
+
+    // Set to true to rotate about the point picked under the pointer rather than the target
+    // The picker decides the point, from a raycast or from a depth read of your own
+    this.rotateAroundPointer = false;
+
+    // Set to true to turn the view by twisting two fingers
+    this.enableTwist = false;
+
+    // The part of the element the camera renders to, or a function returning it; null for all of it
+    // Only presses and wheel turns inside the viewport start gestures here
+    this.viewport = null;
+
+    // How far a pinch must go before each of its motions takes effect
+    this.touchDollyThreshold = 10; // pixels of change in finger spread
+    this.touchPanThreshold = 10; // pixels moved by the midpoint
+    this.touchTwistThreshold = 0.15; // radians
+
+    // Mouse buttons and fingers
+    this.inputBindings = BindingPresets.default.slice();
 
     this.state = STATE.NONE;
 
-    this.EPS = 0.000001;
-
-    // current position in spherical coordinates
-    this.spherical = new THREE.Spherical();
-    this.sphericalDelta = new THREE.Spherical();
+    this.gestureOwner = null;
+    this.wheelTimer = null;
 
-    this.scale = 1;
-    this.panOffset = new THREE.Vector3();
-    this.zoomChanged = false;
+    this.keysDown = {};
 
     this.rotateStart = new THREE.Vector2();
     this.rotateEnd = new THREE.Vector2();
@@ -229,491 +347,740 @@ export default class OrbitControls extends THREE.EventDispatcher {
     this.dollyStart = new THREE.Vector2();
     this.dollyEnd = new THREE.Vector2();
     this.dollyDelta = new THREE.Vector2();
+    this.dollyPointer = new THREE.Vector2();
 
-  }
+    this.twistStart = 0;
+    this.pinch = null;
 
-  private setupHandlers() {
+    this.lastTapTime = - Infinity;
+    this.lastTapPosition = new THREE.Vector2();
 
-    this.domElement.addEventListener( 'contextmenu', this.onContextMenu.bind(this), false );
+    this.pointers = [];
+    this.pointerPositions = {};
+    this.pointerType = '';
 
-    this.domElement.addEventListener( 'mousedown', this.onMouseDown.bind(this), false );
-    this.domElement.addEventListener( 'wheel', this.onMouseWheel.bind(this), false );
+    this.connected = false;
 
-    this.domElement.addEventListener( 'touchstart', this.onTouchStart.bind(this), false );
-    this.domElement.addEventListener( 'touchend', this.onTouchEnd.bind(this), false );
-    this.domElement.addEventListener( 'touchmove', this.onTouchMove.bind(this), false );
+    this.elementListeners = {
+      contextmenu: this.onContextMenu.bind( this ),
+      pointerdown: this.onPointerDown.bind( this ),
+      pointermove: this.onPointerMove.bind( this ),
+      pointerup: this.onPointerUp.bind( this ),
+      pointercancel: this.onPointerUp.bind( this ),
+      wheel: this.onMouseWheel.bind( this ),
+      keydown: this.onKeyDown.bind( this ),
+      keyup: this.onKeyUp.bind( this ),
+      blur: this.onBlur.bind( this )
+    };
 
-    window.addEventListener( 'keydown', this.onKeyDown.bind(this), false );
+    // the element gets no blur when the document is listened to
+    this.windowListeners = {
+      blur: this.onBlur.bind( this )
+    };
 
-  }
+    this.pressedInside = true;
 
-  public getPolarAngle() {
+    this.addedTabIndex = false;
+    this.touchAction = null;
 
   }
 
-  public getAzimuthalAngle() {
+  // Which mouse buttons and finger counts, with which modifier keys, rotate, dolly or pan.
+  // An invalid table is rejected with a warning, keeping the bindings in use.
+  // Reading gives a copy, so edit it and assign it back for the change to take effect.
+  get bindings(): Binding[] {
+
+    return copyBindings( this.inputBindings );
 
   }
 
-  public saveState() {
+  set bindings( value: Binding[] ) {
+
+    const problem: string | null = validateBindings( value );
 
-    this.target0.copy( this.target );
-    this.position0.copy( this.camera.position );
-    this.zoom0 = this.camera.zoom;
+    if ( problem !== null ) {
+
+      console.warn( 'THREE.OrbitControls: bindings rejected, ' + problem + '.' );
+      return;
+
+    }
+
+    this.inputBindings = copyBindings( value );
 
   }
 
-  public reset() {
+  // Switches to one of BindingPresets: "default", "Blender" or "Maya".
+  public setBindingPreset( name: string ): void {
+
+    if ( BindingPresets.hasOwnProperty( name ) === false ) {
 
-    this.target.copy( this.target0 );
-    this.camera.position.copy( this.position0 );
-    this.camera.zoom = this.zoom0;
+      console.warn( 'THREE.OrbitControls: there is no binding preset "' + name + '".' );
+      return;
 
-    this.camera.updateProjectionMatrix();
-    this.dispatchEvent( { type: Events.change } );
+    }
 
-    this.update();
+    this.bindings = BindingPresets[ name ];
 
   }
 
-  // this method is exposed, but perhaps it would be better if we can make it private...
-  public update(): boolean {
+  // Starts listening to domElement, leaving any element listened to before.
+  public connect( domElement: Document | Element ): void {
 
-    const offset: THREE.Vector3 = new THREE.Vector3();
+    this.disconnect();
 
-    // so camera.up is the orbit axis
-    const quat: THREE.Quaternion = new THREE.Quaternion().setFromUnitVectors( this.camera.up, new THREE.Vector3( 0, 1, 0 ) );
-    const quatInverse: THREE.Quaternion = quat.clone().inverse();
+    this.domElement = domElement;
 
-    const lastPosition: THREE.Vector3 = new THREE.Vector3();
-    const lastQuaternion: THREE.Quaternion = new THREE.Quaternion();
+    Object.keys( this.elementListeners ).forEach( ( type ) => {
 
-    // fn?
+      this.domElement.addEventListener( type, this.elementListeners[ type ], false );
 
-    const position: THREE.Vector3 = this.camera.position;
+    } );
 
-    offset.copy( position ).sub( this.target );
+    Object.keys( this.windowListeners ).forEach( ( type ) => {
 
-    // rotate offset to "y-axis-is-up" space
-    offset.applyQuaternion( quat );
+      window.addEventListener( type, this.windowListeners[ type ], false );
 
-    // angle from z-axis around y-axis
-    this.spherical.setFromVector3( offset );
+    } );
 
-    if ( this.autoRotate && this.state === STATE.NONE ) {
+    // touch gestures are handled here, not by the browser
+    if ( ( this.domElement as HTMLElement ).style !== undefined ) {
 
-      this.rotateLeft( this.getAutoRotationAngle() );
+      this.touchAction = ( this.domElement as HTMLElement ).style.touchAction;
+      ( this.domElement as HTMLElement ).style.touchAction = 'none';
 
     }
 
-    this.spherical.theta += this.sphericalDelta.theta;
-    this.spherical.phi += this.sphericalDelta.phi;
+    // keys only reach an element that can take focus
+    if ( this.domElement !== document && ( this.domElement as Element ).hasAttribute( 'tabindex' ) === false ) {
 
-    // restrict theta to be between desired limits
-    this.spherical.theta = Math.max( this.minAzimuthAngle, Math.min( this.maxAzimuthAngle, this.spherical.theta ) );
+      ( this.domElement as Element ).setAttribute( 'tabindex', '0' );
+      this.addedTabIndex = true;
 
-    // restrict phi to be between desired limits
-    this.spherical.phi = Math.max( this.minPolarAngle, Math.min( this.maxPolarAngle, this.spherical.phi ) );
+    }
 
-    this.spherical.makeSafe();
+    this.connected = true;
 
-    this.spherical.radius *= this.scale;
+  }
 
-    // restrict radius to be between desired limits
-    this.spherical.radius = Math.max( this.minDistance, Math.min( this.maxDistance, this.spherical.radius ) );
+  // Stops listening, ending any gesture in progress.
+  public disconnect(): void {
 
-    // move target to panned location
-    this.target.add( this.panOffset );
+    if ( this.connected === false ) return;
 
-    offset.setFromSpherical( this.spherical );
+    Object.keys( this.elementListeners ).forEach( ( type ) => {
 
-    // rotate offset back to "camera-up-vector-is-up" space
-    offset.applyQuaternion( quatInverse );
+      this.domElement.removeEventListener( type, this.elementListeners[ type ], false );
 
-    position.copy( this.target ).add( offset );
+    } );
 
-    this.camera.lookAt( this.target );
+    Object.keys( this.windowListeners ).forEach( ( type ) => {
 
-    if ( this.enableDamping === true ) {
+      window.removeEventListener( type, this.windowListeners[ type ], false );
 
-      this.sphericalDelta.theta *= ( 1 - this.dampingFactor );
-      this.sphericalDelta.phi *= ( 1 - this.dampingFactor );
+    } );
 
-    } else {
+    if ( ( this.domElement as HTMLElement ).style !== undefined ) {
 
-      this.sphericalDelta.set( 0, 0, 0);
+      ( this.domElement as HTMLElement ).style.touchAction = this.touchAction;
 
     }
 
-    this.scale = 1;
-    this.panOffset.set( 0, 0, 0 );
+    if ( this.addedTabIndex ) {
 
-    // update condition is:
-    // min(camera displacement, camera rotation in radians)^2 > EPS
-    // using small-angle approximation cos(x/2) = 1 - x^2 / 8
+      ( this.domElement as Element ).removeAttribute( 'tabindex' );
+      this.addedTabIndex = false;
 
-    if ( this.zoomChanged ||
-      lastPosition.distanceToSquared( this.camera.position ) > this.EPS ||
-      8 * ( 1 - lastQuaternion.dot( this.camera.quaternion ) ) > this.EPS ) {
+    }
 
-      this.dispatchEvent( { type: Events.change } );
+    this.pointers.forEach( ( pointerId ) => {
 
-      lastPosition.copy( this.camera.position );
-      lastQuaternion.copy( this.camera.quaternion );
-      this.zoomChanged = false;
+      if ( ( this.domElement as Element ).releasePointerCapture !== undefined ) {
 
-      return true;
+        ( this.domElement as Element ).releasePointerCapture( pointerId );
 
-    }
+      }
+
+    } );
+
+    this.pointers = [];
+    this.pointerPositions = {};
+    this.keysDown = {};
+
+    this.finishGesture( this.gestureOwner );
+    this.state = STATE.NONE;
+
+    this.connected = false;
 
-    return false;
   }
 
   public dispose() {
 
-    this.domElement.removeEventListener( 'contextmenu', this.onContextMenu, false );
-    this.domElement.removeEventListener( 'mousedown', this.onMouseDown, false );
-    this.domElement.removeEventListener( 'wheel', this.onMouseWheel, false );
+    this.disconnect();
+    this.cancelTransition();
 
-    this.domElement.removeEventListener( 'touchstart', this.onTouchStart, false );
-    this.domElement.removeEventListener( 'touchend', this.onTouchEnd, false );
-    this.domElement.removeEventListener( 'touchmove', this.onTouchMove, false );
+  }
 
-    document.removeEventListener( 'mousemove', this.onMouseMove, false );
-    document.removeEventListener( 'mouseup', this.onMouseUp, false );
+  // moves the camera for the keys held during deltaSeconds; called by update()
+  protected updateInput( deltaSeconds: number ): void {
 
-    window.removeEventListener( 'keydown', this.onKeyDown, false );
+    if ( this.enabled === false || this.enableKeys === false ) return;
 
-  }
+    const keysDown: { [ name: string ]: boolean } = this.keysDown;
+
+    if ( this.enablePan ) {
+
+      const distance: number = this.keyPanSpeed * deltaSeconds;
+
+      const deltaX: number = ( keysDown.LEFT ? distance : 0 ) - ( keysDown.RIGHT ? distance : 0 );
+      const deltaY: number = ( keysDown.UP ? distance : 0 ) - ( keysDown.BOTTOM ? distance : 0 );
+
+      if ( deltaX !== 0 || deltaY !== 0 ) {
+
+        this.pan( deltaX, deltaY );
+
+      }
+
+    }
 
-  private getAutoRotationAngle(): number {
+    if ( this.enableRotate ) {
 
-    return 2 * Math.PI / 60 / 60 * this.autoRotateSpeed;
+      // with damping, a rotation adds up to its delta / dampingFactor before it dies out
+      const share: number = this.enableDamping && this.dampingFactor > 0 ? this.dampingFactor : 1;
+      const angle: number = this.keyRotateSpeed * deltaSeconds * share;
+
+      if ( keysDown.ROTATE_LEFT ) this.rotateLeft( - angle );
+      if ( keysDown.ROTATE_RIGHT ) this.rotateLeft( angle );
+      if ( keysDown.ROTATE_UP ) this.rotateUp( - angle );
+      if ( keysDown.ROTATE_DOWN ) this.rotateUp( angle );
+
+    }
+
+    if ( this.enableZoom && keysDown.DOLLY_IN !== keysDown.DOLLY_OUT ) {
+
+      const dollyScale: number = Math.pow( this.keyDollySpeed, deltaSeconds );
+
+      // keys dolly toward the target, not toward the last wheel position
+      this.setDollyCursor();
+      this.dolly( keysDown.DOLLY_IN ? 1 / dollyScale : dollyScale );
+
+    }
 
   }
 
-  private getZoomScale(): number {
+  // names in keys bound to the key of event
+  private getKeyNames( event: KeyboardEvent ): string[] {
 
-    return Math.pow( 0.95, this.zoomSpeed );
+    return Object.keys( this.keys ).filter( ( name ) => this.keys[ name ] === event.code );
 
   }
 
-  private rotateLeft( angle: number ): void {
+  // the viewport in CSS pixels from the top left of the element
+  private getViewportRect( element: ElementRect = getElementRect( this.domElement ) ): ViewportRect {
+
+    const viewport: ViewportRect | ( () => ViewportRect ) | null = this.viewport;
+
+    if ( viewport === null ) {
+
+      return { x: 0, y: 0, width: element.width, height: element.height };
 
-    this.sphericalDelta.theta -= angle;
+    }
+
+    const rect: ViewportRect = typeof viewport === 'function' ? viewport() : viewport;
+
+    return { x: rect.x, y: element.height - rect.y - rect.height, width: rect.width, height: rect.height };
 
   }
 
-  private rotateUp( angle: number ): void {
+  // converts the client coordinates of event to CSS pixels from the top left of the viewport
+  private getPointerPosition( event: MouseEvent ): THREE.Vector2 {
 
-    this.sphericalDelta.phi -= angle;
+    const element: ElementRect = getElementRect( this.domElement );
+    const viewport: ViewportRect = this.getViewportRect( element );
+
+    return new THREE.Vector2(
+      ( event.clientX - element.left ) / element.scaleX - viewport.x,
+      ( event.clientY - element.top ) / element.scaleY - viewport.y
+    );
 
   }
 
-  private panLeft( distance: number, objectMatrix: THREE.Matrix4 ): void {
+  private isInViewport( position: THREE.Vector2 ): boolean {
 
-    const v: THREE.Vector3 = new THREE.Vector3();
+    const size: ViewportRect = this.getViewportRect();
 
-    v.setFromMatrixColumn( objectMatrix, 0 ) // get X column of objectMatrix
-    v.multiplyScalar( - distance );
+    return position.x >= 0 && position.x < size.width && position.y >= 0 && position.y < size.height;
 
-    this.panOffset.add( v );
+  }
+
+  private handleMouseDownRotate( event: MouseEvent ): void {
+
+    this.rotateStart.copy( this.getPointerPosition( event ) );
 
   }
 
-  private panUp( distance: number, objectMatrix: THREE.Matrix4 ): void {
+  private handleMouseDownDolly( event: MouseEvent ): void {
 
-    const v: THREE.Vector3 = new THREE.Vector3();
+    this.dollyStart.copy( this.getPointerPosition( event ) );
+    this.dollyPointer.copy( this.dollyStart );
+
+  }
 
-    v.setFromMatrixColumn( objectMatrix, 1 ); // get Y column of objectMatrix
-    v.multiplyScalar( distance );
+  private handleMouseDownPan( event: MouseEvent ): void {
 
-    this.panOffset.add( v );
+    this.panStart.copy( this.getPointerPosition( event ) );
 
   }
 
-  private pan( deltaX, deltaY ): void {
+  private handleMouseMoveRotate( event: MouseEvent ): void {
 
-    const offset: THREE.Vector3 = new THREE.Vector3();
+    this.rotateEnd.copy( this.getPointerPosition( event ) );
+    this.rotateDelta.subVectors( this.rotateEnd, this.rotateStart );
 
-    const element: Element = this.domElement === document ? this.domElement.body : this.domElement as Element;
+    this.input( { type: 'rotate', deltaX: this.rotateDelta.x, deltaY: this.rotateDelta.y } );
 
-    if ( ( this.camera as THREE.PerspectiveCamera ).isPerspectiveCamera ) {
-      const camera: THREE.PerspectiveCamera = this.camera as THREE.PerspectiveCamera;
+    this.rotateStart.copy( this.rotateEnd );
 
-      // perspective
-      const position = camera.position;
-      offset.copy ( position ).sub( this.target );
-      let targetDistance = offset.length();
+  }
 
-      // half of the fov is center to top of screen
-      targetDistance *= Math.tan( ( camera.fov / 2 ) * Math.PI / 180.0 )
+  private handleMouseMoveDolly( event: MouseEvent ): void {
 
-      // we actually don't use screenWidth, since perspective camera is fixed to screen height
-      this.panLeft( 2 * deltaX * targetDistance / element.clientHeight, camera.matrix );
-      this.panUp( 2 * deltaY * targetDistance / element.clientHeight, camera.matrix );
+    this.dollyEnd.copy( this.getPointerPosition( event ) );
 
-    } else if ( ( this.camera as THREE.OrthographicCamera ).isOrthographicCamera ) {
-      const camera: THREE.OrthographicCamera = this.camera as THREE.OrthographicCamera;
+    this.dollyDelta.subVectors( this.dollyEnd, this.dollyStart );
 
+    // dragging to dolly aims at where the drag started
+    if ( this.dollyDelta.y > 0 ) {
 
-      this.panLeft( deltaX * ( camera.right - camera.left ) / camera.zoom / element.clientWidth, camera.matrix );
-      this.panUp( deltaY * ( camera.top - camera.bottom ) / camera.zoom / element.clientHeight, camera.matrix );
+      this.input( { type: 'dolly', scale: 1 / this.getZoomScale(), x: this.dollyPointer.x, y: this.dollyPointer.y } );
 
-    } else {
+    } else if ( this.dollyDelta.y < 0 ) {
 
-      // camera neither orthographic nor perspective
-      console.warn( 'WARNING: OrbitControls.js encountered an unknown camera type - pan disabled.' );
-      this.enablePan = false;
+      this.input( { type: 'dolly', scale: this.getZoomScale(), x: this.dollyPointer.x, y: this.dollyPointer.y } );
 
     }
 
+    this.dollyStart.copy( this.dollyEnd );
+
   }
 
-  private dollyIn( dollyScale ): void {
+  private handleMouseMovePan( event: MouseEvent ): void {
 
-    if ( ( this.camera as THREE.PerspectiveCamera ).isPerspectiveCamera ) {
+    this.panEnd.copy( this.getPointerPosition( event ) );
 
-      this.scale /= dollyScale;
+    this.panDelta.subVectors( this.panEnd, this.panStart );
 
-    } else if ( ( this.camera as THREE.OrthographicCamera ).isOrthographicCamera ) {
+    this.input( { type: 'pan', deltaX: this.panDelta.x, deltaY: this.panDelta.y, x: this.panEnd.x, y: this.panEnd.y } );
 
-      this.camera.zoom = Math.max( this.minZoom, Math.min( this.maxZoom, this.camera.zoom * dollyScale ) );
-      this.camera.updateProjectionMatrix();
-      this.zoomChanged = true;
+    this.panStart.copy( this.panEnd );
 
-    } else {
+  }
+
+  private handleMouseUp( event: MouseEvent ): void {
+
+  }
+
+  private handleMouseWheel( event: MouseWheelEvent ): void {
+
+    const position: THREE.Vector2 = this.getPointerPosition( event );
+
+    if ( event.deltaY < 0 ) {
+
+      this.input( { type: 'dolly', scale: this.getZoomScale(), x: position.x, y: position.y } );
 
-      console.warn( 'WARNING: OrbitControls.js encountered an unknown camera type - dolly/zoom disabled.' );
-      this.enableZoom = false;
+    } else if ( event.deltaY > 0 ) {
+
+      this.input( { type: 'dolly', scale: 1 / this.getZoomScale(), x: position.x, y: position.y } );
 
     }
 
   }
 
-  private dollyOut( dollyScale ): void {
+  private handleKeyDown( event: KeyboardEvent ) {
 
-    if ( ( this.camera as THREE.PerspectiveCamera ).isPerspectiveCamera ) {
+    const names: string[] = this.getKeyNames( event );
 
-      this.scale *= dollyScale;
+    if ( names.length === 0 ) return;
 
-    } else if ( ( this.camera as THREE.OrthographicCamera ).isOrthographicCamera ) {
+    // keep arrow keys from scrolling the page
+    event.preventDefault();
 
-      this.camera.zoom = Math.max( this.minZoom, Math.min( this.maxZoom, this.camera.zoom / dollyScale ) );
-      this.camera.updateProjectionMatrix();
-      this.zoomChanged = true;
+    this.cancelTransition();
 
-    } else {
+    names.forEach( ( name ) => {
+
+      if ( name === 'RESET' ) {
+
+        this.reset();
+
+      } else {
+
+        // the first key held starts a gesture that lasts until the last is let go;
+        // keys pressed during a drag or a wheel turn are part of that gesture instead
+        if ( this.gestureOwner === null ) {
+
+          this.beginGesture( 'keys', getKeyGesture( name ), 'keyboard' );
+
+        }
+
+        this.keysDown[ name ] = true;
+
+      }
+
+    } );
+
+  }
+
+  private handleKeyUp( event: KeyboardEvent ) {
 
-      console.warn( 'WARNING: OrbitControls.js encountered an unknown camera type - dolly/zoom disabled.' );
-      this.enableZoom = false;
+    this.getKeyNames( event ).forEach( ( name ) => delete this.keysDown[ name ] );
+
+    if ( Object.keys( this.keysDown ).length === 0 ) {
+
+      this.finishGesture( 'keys' );
 
     }
 
   }
 
-  private handleMouseDownRotate( event: MouseEvent ): void {
+  private handleTouchStartRotate( event: PointerEvent ) {
 
-    this.rotateStart.set( event.clientX, event.clientY );
+    this.rotateStart.copy( this.getPointerCenter() );
 
   }
 
-  private handleMouseDownDolly( event: MouseEvent ): void {
+  private handleTouchStartPinch( event: PointerEvent ) {
+
+    const distance: number = this.getPointerDistance();
+    const center: THREE.Vector2 = this.getPointerCenter();
+    const angle: number = this.getPointerAngle();
+
+    this.dollyStart.set( 0, distance );
+    this.panStart.copy( center );
+    this.twistStart = angle;
 
-    this.dollyStart.set( event.clientX, event.clientY );
+    this.pinch = { distance: distance, center: center, angle: angle, dolly: false, pan: false, twist: false };
 
   }
 
-  private handleMouseDownPan( event: MouseEvent ): void {
+  private handleTouchStartPan( event: PointerEvent ) {
 
-    this.panStart.set( event.clientX, event.clientY );
+    this.panStart.copy( this.getPointerCenter() );
 
   }
 
-  private handleMouseMoveRotate( event: MouseEvent ): void {
+  private handleTouchMoveRotate( event: PointerEvent ) {
 
-    this.rotateEnd.set( event.clientX, event.clientY );
+    this.rotateEnd.copy( this.getPointerCenter() );
     this.rotateDelta.subVectors( this.rotateEnd, this.rotateStart );
 
-    const element: Element = this.domElement === document ? this.domElement.body : this.domElement as Element;
+    this.input( { type: 'rotate', deltaX: this.rotateDelta.x, deltaY: this.rotateDelta.y } );
 
-    // rotating across whole screen goes 360 degrees around
-    this.rotateLeft( 2 * Math.PI * this.rotateDelta.x / element.clientWidth * this.rotateSpeed );
+    this.rotateStart.copy( this.rotateEnd );
 
-    // rotating up and down along whole screen attempts to go 360, but limited to 180
-    this.rotateUp( 2 * Math.PI * this.rotateDelta.y / element.clientHeight * this.rotateSpeed );
+  }
 
-    this.rotateStart.copy( this.rotateEnd );
+  // dollies by the change in spread, pans by the midpoint and twists by the angle between the fingers
+  private handleTouchMovePinch( event: PointerEvent ) {
 
-    this.update();
+    const pinch: Pinch = this.pinch;
 
-  }
+    const distance: number = this.getPointerDistance();
+    const center: THREE.Vector2 = this.getPointerCenter();
+    const angle: number = this.getPointerAngle();
 
-  private handleMouseMoveDolly( event: MouseEvent ): void {
+    if ( Math.abs( distance - pinch.distance ) > this.touchDollyThreshold ) pinch.dolly = true;
+    if ( center.distanceTo( pinch.center ) > this.touchPanThreshold ) pinch.pan = true;
+    if ( Math.abs( getTurn( pinch.angle, angle ) ) > this.touchTwistThreshold ) pinch.twist = true;
 
-    this.dollyEnd.set( event.clientX, event.clientY );
+    if ( pinch.dolly && this.enableZoom && distance > 0 ) {
 
-    this.dollyDelta.subVectors( this.dollyEnd, this.dollyStart );
+      this.dollyEnd.set( 0, distance );
 
-    if ( this.dollyDelta.y > 0 ) {
+      // spreading the fingers apart by half brings the target twice as close, at zoomSpeed 1
+      const scale: number = Math.pow( this.dollyStart.y / this.dollyEnd.y, this.zoomSpeed );
 
-      this.dollyIn( this.getZoomScale() );
+      this.input( { type: 'dolly', scale: scale, x: center.x, y: center.y } );
 
-    } else if ( this.dollyDelta.y < 0 ) {
+    }
 
-      this.dollyOut( this.getZoomScale() );
+    if ( pinch.pan && this.enablePan ) {
+
+      this.panEnd.copy( center );
+      this.panDelta.subVectors( this.panEnd, this.panStart );
+
+      this.input( { type: 'pan', deltaX: this.panDelta.x, deltaY: this.panDelta.y, x: center.x, y: center.y } );
 
     }
 
-    this.dollyStart.copy( this.dollyEnd );
+    if ( pinch.twist && this.enableTwist && this.enableRotate ) {
+
+      this.input( { type: 'twist', angle: getTurn( this.twistStart, angle ) } );
+
+    }
 
-    this.update();
+    this.dollyStart.set( 0, distance );
+    this.panStart.copy( center );
+    this.twistStart = angle;
 
   }
 
-  private handleMouseMovePan( event: MouseEvent ): void {
+  private handleTouchMovePan( event: PointerEvent ) {
 
-    this.panEnd.set( event.clientX, event.clientY );
+    this.panEnd.copy( this.getPointerCenter() );
 
     this.panDelta.subVectors( this.panEnd, this.panStart );
 
-    this.pan( this.panDelta.x, this.panDelta.y );
+    this.input( { type: 'pan', deltaX: this.panDelta.x, deltaY: this.panDelta.y, x: this.panEnd.x, y: this.panEnd.y } );
 
     this.panStart.copy( this.panEnd );
 
-    this.update();
+  }
+
+  private handleTouchEnd( event: PointerEvent ) {
 
   }
 
-  private handleMouseUp( event: MouseEvent ): void {
+  private addPointer( event: PointerEvent ): void {
+
+    this.pointers.push( event.pointerId );
+    this.pointerPositions[ event.pointerId ] = this.getPointerPosition( event );
+    this.pointerType = event.pointerType;
 
   }
 
-  private handleMouseWheel( event: MouseWheelEvent ): void {
+  private removePointer( event: PointerEvent ): void {
 
-    if ( event.deltaY < 0 ) {
+    const index: number = this.pointers.indexOf( event.pointerId );
 
-      this.dollyOut( this.getZoomScale() );
+    this.pointers.splice( index, 1 );
+    delete this.pointerPositions[ event.pointerId ];
 
-    } else if ( event.deltaY > 0 ) {
+  }
 
-      this.dollyIn( this.getZoomScale() );
+  private isTrackedPointer( event: PointerEvent ): boolean {
 
-    }
+    return this.pointers.indexOf( event.pointerId ) !== - 1;
 
-    this.update();
+  }
+
+  private getPointerDistance(): number {
+
+    const a: THREE.Vector2 = this.pointerPositions[ this.pointers[ 0 ] ];
+    const b: THREE.Vector2 = this.pointerPositions[ this.pointers[ 1 ] ];
+
+    return a.distanceTo( b );
 
   }
 
-  private handleKeyDown( event: KeyboardEvent ) {
+  // direction from the first pointer down to the second, in radians
+  private getPointerAngle(): number {
 
-    switch ( event.keyCode ) {
+    const a: THREE.Vector2 = this.pointerPositions[ this.pointers[ 0 ] ];
+    const b: THREE.Vector2 = this.pointerPositions[ this.pointers[ 1 ] ];
 
-      case this.keys.UP:
-        this.pan( 0, this.keyPanSpeed );
-        this.update();
-        break;
+    return Math.atan2( b.y - a.y, b.x - a.x );
 
-      case this.keys.BOTTOM:
-        this.pan( 0, - this.keyPanSpeed );
-        this.update();
-        break;
+  }
 
-      case this.keys.LEFT:
-        this.pan( this.keyPanSpeed, 0 );
-        this.update();
-        break;
+  // centroid of all the pointers down
+  private getPointerCenter(): THREE.Vector2 {
 
-      case this.keys.RIGHT:
-        this.pan( - this.keyPanSpeed, 0 );
-        this.update();
-        break;
+    const center: THREE.Vector2 = new THREE.Vector2();
 
-    }
+    this.pointers.forEach( ( pointerId ) => center.add( this.pointerPositions[ pointerId ] ) );
+
+    return center.divideScalar( this.pointers.length );
 
   }
 
-  private handleTouchStartRotate( event: TouchEvent ) {
+  // reports the start of a gesture, ending the one of any other input first
+  private beginGesture( owner: GestureOwner, gesture: Gesture, source: InputSource ): void {
 
-    this.rotateStart.set( event.touches[ 0 ].pageX, event.touches[ 0 ].pageY );
+    this.finishGesture( this.gestureOwner );
+
+    this.gestureOwner = owner;
+    this.input( { type: 'start', gesture: gesture, source: source } );
 
   }
 
-  private handleTouchStartDolly( event: TouchEvent ) {
+  // reports the end of the gesture, if owner started it
+  private finishGesture( owner: GestureOwner | null ): void {
+
+    if ( owner === null || owner !== this.gestureOwner ) return;
+
+    if ( this.wheelTimer !== null ) {
+
+      window.clearTimeout( this.wheelTimer );
+      this.wheelTimer = null;
+
+    }
 
-    const dx = event.touches[ 0 ].pageX - event.touches[ 1 ].pageX;
-    const dy = event.touches[ 0 ].pageY - event.touches[ 1 ].pageY;
+    this.gestureOwner = null;
+    this.input( { type: 'end' } );
 
-    const distance = Math.sqrt( dx * dx + dy * dy );
+    // keys still held after the gesture they joined carry on as a gesture of their own
+    const names: string[] = Object.keys( this.keysDown );
 
-    this.dollyStart.set( 0 , distance );
+    if ( owner !== 'keys' && names.length > 0 ) {
+
+      this.beginGesture( 'keys', getKeyGesture( names[ 0 ] ), 'keyboard' );
+
+    }
 
   }
 
-  private handleTouchStartPan( event: TouchEvent ) {
+  // pivots the rotation starting at viewport position on the point picked there
+  private pickPivot( position: THREE.Vector2 ): void {
+
+    if ( this.rotateAroundPointer === false ) return;
+
+    const hit: THREE.Intersection | null = this.pick( position.x, position.y );
 
-    this.panStart.set( event.touches[ 0 ].pageX, event.touches[ 0 ].pageY );
+    if ( hit !== null ) {
+
+      this.setPivot( hit.point );
+
+    }
 
   }
 
-  private handleTouchMoveRotate( event: TouchEvent ) {
+  // whether a single pointer press follows the previous one closely enough to double it
+  private isDoubleTap( event: PointerEvent ): boolean {
 
-    this.rotateEnd.set( event.touches[ 0 ].pageX, event.touches[ 0 ].pageY );
-    this.rotateDelta.subVectors( this.rotateEnd, this.rotateStart );
+    if ( this.pointers.length !== 1 || event.button !== THREE.MOUSE.LEFT ) return false;
 
-    const element: Element = this.domElement === document ? this.domElement.body : this.domElement as Element;
+    const time: number = performance.now();
+    const position: THREE.Vector2 = this.getPointerPosition( event );
 
-    this.rotateLeft( 2 * Math.PI * this.rotateDelta.x / element.clientWidth * this.rotateSpeed );
-    this.rotateUp( 2 * Math.PI * this.rotateDelta.y / element.clientHeight * this.rotateSpeed );
+    const isDouble: boolean = time - this.lastTapTime < DOUBLE_TAP_TIME &&
+      position.distanceTo( this.lastTapPosition ) < DOUBLE_TAP_DISTANCE;
 
-    this.rotateStart.copy( this.rotateEnd );
+    // a third press starts over instead of doubling the second
+    this.lastTapTime = isDouble ? - Infinity : time;
+    this.lastTapPosition.copy( position );
 
-    this.update();
+    return isDouble;
 
   }
 
-  private handleTouchMoveDolly( event: TouchEvent ) {
+  // the button bound to action without modifier keys, for mouseButtons
+  private findButton( action: Action ): THREE.MOUSE {
 
-    const dx = event.touches[ 0 ].pageX - event.touches[ 1 ].pageX;
-    const dy = event.touches[ 0 ].pageY - event.touches[ 1 ].pageY;
+    const binding: Binding | undefined = this.inputBindings.filter( ( binding ) =>
+      binding.button !== undefined && binding.action === action && countModifiers( binding ) === 0
+    )[ 0 ];
 
-    const distance = Math.sqrt( dx * dx + dy * dy );
+    return binding !== undefined ? binding.button : undefined;
 
-    this.dollyEnd.set( 0, distance );
+  }
 
-    this.dollyDelta.subVectors( this.dollyEnd, this.dollyStart );
+  // binds button without modifier keys to action, in place of what either was bound to before
+  private setButton( action: Action, button: THREE.MOUSE ): void {
 
-    if ( this.dollyDelta.y > 0 ) {
+    const bindings: Binding[] = this.inputBindings.filter( ( binding ) =>
+      binding.button === undefined || countModifiers( binding ) > 0 || ( binding.action !== action && binding.button !== button )
+    );
 
-      this.dollyOut( this.getZoomScale() );
+    bindings.push( { button: button, action: action } );
 
-    } else if ( this.dollyDelta.y < 0 ) {
+    this.bindings = bindings;
+
+  }
 
-      this.dollyIn( this.getZoomScale() );
+  private onPointerDown( event: PointerEvent ) {
+
+    if ( this.enabled === false ) return;
+
+    // a press outside the viewport belongs to whatever is shown there, unless it joins a gesture
+    if ( this.pointers.length === 0 ) {
+
+      this.pressedInside = this.isInViewport( this.getPointerPosition( event ) );
+
+      if ( this.pressedInside === false ) return;
 
     }
 
-    this.dollyStart.copy( this.dollyEnd );
+    // one device at a time: a mouse press during a touch gesture (or vice versa) is ignored
+    if ( this.pointers.length > 0 && event.pointerType !== this.pointerType ) return;
+
+    // only touch input can have more than one pointer down at once
+    if ( this.pointers.length > 0 && event.pointerType !== 'touch' ) return;
+
+    if ( ( this.domElement as Element ).setPointerCapture !== undefined ) {
+
+      ( this.domElement as Element ).setPointerCapture( event.pointerId );
+
+    }
+
+    // clicking the view gives it the keys
+    if ( ( this.domElement as HTMLElement ).focus !== undefined ) {
+
+      ( this.domElement as HTMLElement ).focus();
+
+    }
+
+    this.addPointer( event );
+
+    if ( event.pointerType === 'touch' ) {
+
+      this.onTouchStart( event );
+
+    } else {
+
+      this.onMouseDown( event );
+
+    }
+
+    // after the press has started its gesture, which would cancel the focus transition
+    if ( this.isDoubleTap( event ) ) {
+
+      this.onDoubleTap( event );
 
-    this.update();
+    }
 
   }
 
-  private handleTouchMovePan( event: TouchEvent ) {
+  private onPointerMove( event: PointerEvent ) {
 
-    this.panEnd.set( event.touches[ 0 ].pageX, event.touches[ 0 ].pageY );
+    if ( this.isTrackedPointer( event ) === false ) return;
 
-    this.panDelta.subVectors( this.panEnd, this.panStart );
+    this.pointerPositions[ event.pointerId ].copy( this.getPointerPosition( event ) );
 
-    this.pan( this.panDelta.x, this.panDelta.y );
+    if ( this.enabled === false ) return;
 
-    this.panStart.copy( this.panEnd );
+    if ( event.pointerType === 'touch' ) {
+
+      this.onTouchMove( event );
+
+    } else {
+
+      this.onMouseMove( event );
 
-    this.update();
+    }
 
   }
 
-  private handleTouchEnd( event: TouchEvent ) {
+  private onPointerUp( event: PointerEvent ) {
+
+    if ( this.isTrackedPointer( event ) === false ) return;
+
+    if ( ( this.domElement as Element ).releasePointerCapture !== undefined ) {
+
+      ( this.domElement as Element ).releasePointerCapture( event.pointerId );
+
+    }
+
+    this.removePointer( event );
+
+    if ( event.pointerType === 'touch' ) {
+
+      this.onTouchEnd( event );
+
+    } else {
+
+      this.onMouseUp( event );
+
+    }
 
   }
 
@@ -723,9 +1090,9 @@ export default class OrbitControls extends THREE.EventDispatcher {
 
     event.preventDefault();
 
-    switch ( event.button ) {
+    switch ( findAction( this.inputBindings, { button: event.button }, event ) ) {
 
-      case this.mouseButtons.ORBIT:
+      case Action.ROTATE:
 
         if ( this.enableRotate === false ) return;
 
@@ -734,7 +1101,7 @@ export default class OrbitControls extends THREE.EventDispatcher {
         this.state = STATE.ROTATE;
         break;
 
-      case this.mouseButtons.ZOOM:
+      case Action.DOLLY:
 
         if ( this.enableZoom === false ) return;
 
@@ -743,7 +1110,7 @@ export default class OrbitControls extends THREE.EventDispatcher {
         this.state = STATE.DOLLY;
         break
 
-      case this.mouseButtons.PAN:
+      case Action.PAN:
 
         if ( this.enablePan === false ) return;
 
@@ -756,10 +1123,14 @@ export default class OrbitControls extends THREE.EventDispatcher {
 
     if ( this.state !== STATE.NONE ) {
 
-      document.addEventListener( 'mousemove', this.onMouseMove.bind(this), false );
-      document.addEventListener( 'mouseup', this.onMouseUp.bind(this), false);
+      this.beginGesture( 'pointer', getStateGesture( this.state ), 'mouse' );
+
+    }
+
+    // after the start, which lets go of any earlier pivot
+    if ( this.state === STATE.ROTATE ) {
 
-      this.dispatchEvent( { type: Events.start } );
+      this.pickPivot( this.rotateStart );
 
     }
 
@@ -797,14 +1168,11 @@ export default class OrbitControls extends THREE.EventDispatcher {
 
   private onMouseUp( event: MouseEvent ) {
 
-    if ( this.enabled === false ) return;
+    if ( this.state === STATE.NONE ) return;
 
     this.handleMouseUp( event );
 
-    document.removeEventListener( 'mousemove', this.onMouseMove, false );
-    document.removeEventListener( 'mouseup', this.onMouseUp, false );
-
-    this.dispatchEvent( { type: Events.end } );
+    this.finishGesture( 'pointer' );
 
     this.state = STATE.NONE;
 
@@ -814,31 +1182,80 @@ export default class OrbitControls extends THREE.EventDispatcher {
 
     if ( this.enabled === false || this.enableZoom === false || ( this.state !== STATE.NONE && this.state !== STATE.ROTATE ) ) return;
 
+    if ( this.state === STATE.NONE && this.isInViewport( this.getPointerPosition( event ) ) === false ) return;
+
     event.preventDefault();
     event.stopPropagation();
 
-    this.handleMouseWheel( event );
+    // wheel events in quick succession are one gesture; during a drag they are part of it
+    if ( this.gestureOwner === null || this.gestureOwner === 'wheel' ) {
+
+      if ( this.gestureOwner === null ) {
 
-    // this.dispatchEvent( { type: Events.start } );
-    // this.dispatchEvent( { type: Events.end } );
+        this.beginGesture( 'wheel', 'dolly', 'mouse' );
+
+      } else {
+
+        window.clearTimeout( this.wheelTimer );
+
+      }
+
+      this.wheelTimer = window.setTimeout( () => this.finishGesture( 'wheel' ), WHEEL_END_DELAY );
+
+    }
+
+    this.handleMouseWheel( event );
 
   }
 
   private onKeyDown( event: KeyboardEvent ) {
 
-    if ( this.enabled === false || this.enableKeys === false || this.enablePan === false ) return;
+    if ( this.enabled === false || this.enableKeys === false || this.pressedInside === false || isEditable( event.target ) ) return;
+
+    // held keys are handled by update(), so the operating system's key repeat is ignored
+    if ( event.repeat ) {
+
+      if ( this.getKeyNames( event ).length > 0 ) event.preventDefault();
+      return;
+
+    }
 
     this.handleKeyDown( event );
 
   }
 
-  private onTouchStart( event: TouchEvent ) {
+  private onKeyUp( event: KeyboardEvent ) {
+
+    this.handleKeyUp( event );
+
+  }
+
+  private onBlur( event: FocusEvent ) {
+
+    // key up events are not delivered once the element loses focus
+    this.keysDown = {};
+
+    this.finishGesture( 'keys' );
+
+  }
+
+  private onTouchStart( event: PointerEvent ) {
 
     if ( this.enabled == false ) return;
 
-    switch ( event.touches.length ) {
+    event.preventDefault();
+
+    // a finger joining an ongoing gesture ends it; the new finger count picks the next one
+    if ( this.state !== STATE.NONE ) {
+
+      this.finishGesture( 'pointer' );
+      this.state = STATE.NONE;
+
+    }
+
+    switch ( findAction( this.inputBindings, { fingers: this.pointers.length }, event ) ) {
 
-      case 1: // one-fingered touch: rotate
+      case Action.ROTATE:
 
         if ( this.enableRotate === false ) return;
 
@@ -847,16 +1264,17 @@ export default class OrbitControls extends THREE.EventDispatcher {
         this.state = STATE.TOUCH_ROTATE;
         break;
 
-      case 2: // two-fingered touch: dolly
+      case Action.DOLLY:
 
-        if ( this.enableZoom === false ) return;
+        // a pinch also pans and twists, so it goes ahead while any of them is enabled
+        if ( this.enableZoom === false && this.enablePan === false && ( this.enableTwist === false || this.enableRotate === false ) ) return;
 
-        this.handleTouchStartDolly( event );
+        this.handleTouchStartPinch( event );
 
-        this.state = STATE.TOUCH_DOLLY;
+        this.state = STATE.TOUCH_PINCH;
         break;
 
-      case 3:
+      case Action.PAN:
 
         if ( this.enablePan === false ) return;
 
@@ -872,119 +1290,115 @@ export default class OrbitControls extends THREE.EventDispatcher {
 
     if ( this.state !== STATE.NONE ) {
 
-      this.dispatchEvent( { type: Events.start } );
+      this.beginGesture( 'pointer', getStateGesture( this.state ), 'touch' );
+
+    }
+
+    if ( this.state === STATE.TOUCH_ROTATE ) {
+
+      this.pickPivot( this.rotateStart );
 
     }
 
   }
 
-  private onTouchMove( event: TouchEvent ) {
+  private onTouchMove( event: PointerEvent ) {
 
     if ( this.enabled === false ) return;
 
     event.preventDefault();
     event.stopPropagation();
 
-    switch ( event.touches.length ) {
+    switch ( this.state ) {
 
-      case 1:
+      case STATE.TOUCH_ROTATE:
 
         if ( this.enableRotate === false ) return;
-        // if ( this.state !== STATE.TOUCH_ROTATE ) return
 
         this.handleTouchMoveRotate( event );
         break;
 
-      case 2:
-
-        if ( this.enableZoom === false ) return;
-        // if ( this.state !== STATE.TOUCH_DOLLY ) return;
+      case STATE.TOUCH_PINCH:
 
-        this.handleTouchMoveDolly( event );
+        this.handleTouchMovePinch( event );
         break;
 
-      case 3:
+      case STATE.TOUCH_PAN:
 
         if ( this.enablePan === false ) return;
-        // if ( this.state !== STATE.TOUCH_PAN ) return;
 
         this.handleTouchMovePan( event );
         break;
 
-      default:
-
-        this.state = STATE.NONE;
-
     }
 
   }
 
-  private onTouchEnd( event ) {
+  private onTouchEnd( event: PointerEvent ) {
 
-    if ( this.enabled === false ) return;
+    if ( this.state !== STATE.NONE ) {
 
-    this.handleTouchEnd( event );
+      this.handleTouchEnd( event );
 
-    this.dispatchEvent( { type: Events.end } );
+      this.finishGesture( 'pointer' );
 
-    this.state = STATE.NONE;
+      this.state = STATE.NONE;
 
-  }
+    }
 
-  private onContextMenu( event: Event ) {
+    // the fingers still down continue with the gesture that matches their count
+    if ( this.pointers.length > 0 ) {
 
-    if ( this.enabled === false ) return;
+      this.onTouchStart( event );
 
-    event.preventDefault();
+    }
 
   }
 
-  get center() {
+  private onDoubleTap( event: PointerEvent ) {
 
-    console.warn( 'THREE.OrbitControls: .center has been renamed to .target' );
-    return this.target;
+    const position: THREE.Vector2 = this.getPointerPosition( event );
 
-  }
-
-  get noZoom(): boolean {
-
-    console.warn( 'THREE.OrbitControls: .noZoom has been deprecated. Use .enableZoom instead.' );
-    return ! this.enableZoom;
+    this.focusAt( position.x, position.y );
 
   }
 
-  set noZoom( value: boolean ) {
-
-    console.warn( 'THREE.OrbitControls: .noZoom has been deprecated. Use .enableZoom instead.' );
-    this.enableZoom = ! value;
-
-  }
+  private onContextMenu( event: Event ) {
 
-  get noRotate(): boolean {
+    if ( this.enabled === false ) return;
 
-    console.warn( 'THREE.OrbitControls: .noRotate has been deprecated. Use .enableRotate instead.' );
-    return ! this.enableRotate;
+    event.preventDefault();
 
   }
 
-  set noRotate( value: boolean ) {
+  // The buttons bound without modifier keys, kept for code written before bindings.
+  // Writing a button, as in mouseButtons.ORBIT = THREE.MOUSE.RIGHT, rebinds it.
+  get mouseButtons(): MouseButtons {
 
-    console.warn( 'THREE.OrbitControls: .noRotate has been deprecated. Use .enableRotate instead.' );
-    this.enableRotate = ! value;
+    const controls: OrbitControls = this;
 
-  }
+    return {
+      get ORBIT(): THREE.MOUSE { return controls.findButton( Action.ROTATE ); },
+      set ORBIT( button: THREE.MOUSE ) { controls.setButton( Action.ROTATE, button ); },
+      get ZOOM(): THREE.MOUSE { return controls.findButton( Action.DOLLY ); },
+      set ZOOM( button: THREE.MOUSE ) { controls.setButton( Action.DOLLY, button ); },
+      get PAN(): THREE.MOUSE { return controls.findButton( Action.PAN ); },
+      set PAN( button: THREE.MOUSE ) { controls.setButton( Action.PAN, button ); }
+    };
 
-  get noPan(): boolean {
+  }
 
-    console.warn( 'THREE.OrbitControls: .noPan has been deprecated. Use .enablePan instead.' );
-    return ! this.enablePan;
+  set mouseButtons( value: MouseButtons ) {
 
-  }
+    const bindings: Binding[] = this.inputBindings.filter( ( binding ) => binding.button === undefined || countModifiers( binding ) > 0 );
 
-  set noPan( value: boolean ) {
+    bindings.push(
+      { button: value.ORBIT, action: Action.ROTATE },
+      { button: value.ZOOM, action: Action.DOLLY },
+      { button: value.PAN, action: Action.PAN }
+    );
 
-    console.warn( 'THREE.OrbitControls: .noPan has been deprecated. Use .enablePan instead.' );
-    this.enablePan = ! value;
+    this.bindings = bindings;
 
   }
 
@@ -1002,32 +1416,4 @@ export default class OrbitControls extends THREE.EventDispatcher {
 
   }
 
-  get staticMoving(): boolean {
-
-    console.warn( 'THREE.OrbitControls: .staticMoving has been deprecated. Use .enableDamping instead.' );
-    return ! this.enableDamping;
-
-  }
-
-  set staticMoving( value: boolean ) {
-
-    console.warn( 'THREE.OrbitControls: .staticMoving has been deprecated. Use .enableDamping instead.' );
-    this.enableDamping = ! value;
-
-  }
-
-  get dynamicDampeningFactor(): number {
-
-    console.warn( 'THREE.OrbitControls: .dynamicDampingFactor has been renamed. Use .dampingFactor instead.' );
-    return this.dampingFactor;
-
-  }
-
-  set dynamicDampeningFactor( value: number ) {
-
-    console.warn( 'THREE.OrbitControls: .dynamicDampingFactor has been renamed. Use .dampingFactor instead.' );
-    this.dampingFactor = value;
-
-  }
-
 }
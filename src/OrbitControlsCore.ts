@@ -0,0 +1,1951 @@
+/**
+ * @author qiao / https://github.com/qiao
+ * @author mrdoob / http://mrdoob.com
+ * @author alteredq / http://alteredqualia.com/
+ * @author WestLangley / http://github.com/WestLangley
+ * @author erich666 / http://erichaines.com
+ * @author redice44 / https://github.com/redice44
+ */
+
+// The camera math behind OrbitControls: orbiting, dollying (zooming) and panning, without the DOM.
+// Input arrives as normalized commands through input(), measured in pixels of a viewport whose
+// size comes from a provider function, so the core runs in Node, in a Web Worker or from custom input.
+
+import * as THREE from 'three';
+import { lerp, easeInOutCubic, getTurn } from './MathUtils';
+
+export interface ViewportSize {
+  width: number,
+  height: number
+}
+
+// "orbit" keeps camera.up pointing up; "trackball" tumbles freely about the camera's own axes
+export type RotationMode = 'orbit' | 'trackball';
+
+// What a gesture does, and what drives it
+export type Gesture = 'rotate' | 'pan' | 'dolly' | 'pinch' | 'transition';
+export type InputSource = 'mouse' | 'touch' | 'keyboard' | 'animation';
+
+// "screen" pans in the view plane; "ground" slides along the plane perpendicular to camera.up;
+// "grab" also slides along it, keeping the world point under the pointer under the pointer
+export type PanMode = 'screen' | 'ground' | 'grab';
+
+// Movements are in pixels of the viewport. A dolly scale above 1 moves away from the target;
+// x and y, when given, are the viewport position of the point to dolly toward ( see zoomToCursor ),
+// or of the pointer at the end of a pan ( see panMode ).
+// A twist turns the scene about the up axis by angle radians, clockwise as seen from above.
+// A start may name its gesture and source, which are passed on to the events it causes.
+export type InputCommand =
+  { type: 'start', gesture?: Gesture, source?: InputSource } |
+  { type: 'end' } |
+  { type: 'rotate', deltaX: number, deltaY: number } |
+  { type: 'pan', deltaX: number, deltaY: number, x?: number, y?: number } |
+  { type: 'dolly', scale: number, x?: number, y?: number } |
+  { type: 'twist', angle: number };
+
+// Finds what lies under the pointer, for focusAt(); null when nothing is hit.
+export type PickCallback = ( raycaster: THREE.Raycaster ) => THREE.Intersection | null;
+
+// Returns the allowed point nearest to target, for targetBounds; target itself when it is allowed.
+export type TargetConstraint = ( target: THREE.Vector3 ) => THREE.Vector3;
+
+export interface TransitionOptions {
+  duration?: number; // seconds
+  easing?: ( t: number ) => number;
+}
+
+export interface AnimateOptions extends TransitionOptions {
+  animate?: boolean; // jump straight there unless true
+}
+
+export interface FitOptions extends AnimateOptions {
+  padding?: number; // extra margin, as a fraction of the fitted radius
+}
+
+// Everything needed to bring the controls back to a view; plain data, safe for JSON.
+// JSON has no Infinity, so unbounded limits come back from JSON.parse() as null.
+export interface OrbitControlsState {
+  target: number[];
+  spherical: { radius: number, phi: number, theta: number };
+  zoom: number;
+  up: number[];
+  limits: {
+    minDistance: number | null,
+    maxDistance: number | null,
+    minZoom: number | null,
+    maxZoom: number | null,
+    minPolarAngle: number | null,
+    maxPolarAngle: number | null,
+    minAzimuthAngle: number | null,
+    maxAzimuthAngle: number | null
+  };
+}
+
+export type Limit = 'minDistance' | 'maxDistance' | 'minZoom' | 'maxZoom' |
+  'minPolarAngle' | 'maxPolarAngle' | 'minAzimuthAngle' | 'maxAzimuthAngle';
+
+// Where the camera is, as seen from the target in "y-axis-is-up" space
+export interface ControlsSnapshot {
+  spherical: THREE.Spherical;
+  target: THREE.Vector3;
+}
+
+// Events, by type. three.js sets the target of every event to the controls that sent it,
+// so payloads about the orbit target use other names.
+export interface ControlsEvent {
+  target: OrbitControlsCore;
+}
+
+export interface ControlsChangeEvent extends ControlsEvent {
+  type: 'change';
+  gesture: Gesture | null; // null for changes outside a gesture, such as auto-rotation
+  source: InputSource | null;
+  before: ControlsSnapshot;
+  after: ControlsSnapshot;
+}
+
+export interface ControlsGestureEvent extends ControlsEvent {
+  type: 'start' | 'end';
+  gesture: Gesture | null;
+  source: InputSource | null;
+  before: ControlsSnapshot; // when the gesture started
+  after: ControlsSnapshot;
+}
+
+export interface ControlsInertiaEndEvent extends ControlsEvent {
+  type: 'inertiaEnd';
+  gesture: Gesture | null;
+  source: InputSource | null;
+}
+
+export interface ControlsLimitReachedEvent extends ControlsEvent {
+  type: 'limitReached';
+  limit: Limit;
+  value: number;
+}
+
+export interface ControlsFocusEvent extends ControlsEvent {
+  type: 'focus';
+  object: THREE.Object3D;
+  point: THREE.Vector3;
+}
+
+export interface ControlsPivotEvent extends ControlsEvent {
+  type: 'pivot';
+  point: THREE.Vector3 | null;
+}
+
+export interface ControlsConstraintEvent extends ControlsEvent {
+  type: 'constraint';
+  requested: THREE.Vector3; // where the target was headed
+  allowed: THREE.Vector3;
+}
+
+export interface ControlsInputEvent extends ControlsEvent {
+  type: 'input';
+  command: InputCommand; // before it is carried out
+}
+
+export interface ControlsUpdateEvent extends ControlsEvent {
+  type: 'update';
+  deltaSeconds: number; // measured, if update() was called without it
+}
+
+export interface OrbitControlsEventMap {
+  change: ControlsChangeEvent;
+  start: ControlsGestureEvent;
+  end: ControlsGestureEvent;
+  inertiaEnd: ControlsInertiaEndEvent;
+  limitReached: ControlsLimitReachedEvent;
+  focus: ControlsFocusEvent;
+  pivot: ControlsPivotEvent;
+  constraint: ControlsConstraintEvent;
+  input: ControlsInputEvent;
+  update: ControlsUpdateEvent;
+}
+
+// a gesture in progress, or the momentum it left
+interface GestureState {
+  gesture: Gesture | null;
+  source: InputSource | null;
+  before: ControlsSnapshot;
+}
+
+// how much of a damped motion to apply over a time step, and how much of it is left afterwards
+interface Damping {
+  share: number;
+  decay: number;
+}
+
+interface Transition {
+  elapsed: number;
+  duration: number;
+  easing: ( t: number ) => number;
+  sphericalFrom: THREE.Spherical;
+  sphericalTo: THREE.Spherical;
+  targetFrom: THREE.Vector3;
+  targetTo: THREE.Vector3;
+  zoomFrom: number;
+  zoomTo: number;
+  before: ControlsSnapshot;
+  resolve: ( completed: boolean ) => void;
+}
+
+enum Events {
+  change = 'change',
+  start = 'start',
+  end = 'end',
+  focus = 'focus',
+  pivot = 'pivot',
+  constraint = 'constraint',
+  limitReached = 'limitReached',
+  inertiaEnd = 'inertiaEnd',
+  input = 'input',
+  update = 'update'
+}
+
+export default class OrbitControlsCore extends THREE.EventDispatcher {
+  // Set to false to disable this control
+  public enabled: boolean;
+
+  // "target" sets the location of focus, where the object orbits around
+  public target: THREE.Vector3;
+
+  // How far you can dolly in and out ( PerspectiveCamera only )
+  public minDistance: number;
+  public maxDistance: number;
+
+  // How far you can zoom in and out ( OrthographicCamera only )
+  public minZoom: number;
+  public maxZoom: number;
+
+  // How far you can orbit vertically, upper and lower limits.
+  // Range is 0 to Math.PI radians.
+  public minPolarAngle: number; // radians
+  public maxPolarAngle: number; // radians
+
+  // How far you can orbit horizontally, upper and lower limits.
+  // If set, must be a sub-interval of the interval [ - Math.PI, Math.PI ].
+  public minAzimuthAngle: number; // radians
+  public maxAzimuthAngle: number ; // radians
+
+  // Where the target may go, so panning cannot lose the model; null leaves it free
+  public targetBounds: THREE.Box3 | THREE.Sphere | TargetConstraint | null;
+  public boundaryElasticity: number; // 0 stops the target at the bounds
+
+  // What the camera may not pass through; see setupDefaults()
+  public groundPlane: THREE.Plane | null;
+  public colliders: THREE.Object3D[];
+  public collisionMargin: number; // world units kept between the camera and what it collides with
+  public collisionDampingFactor: number; // fraction of the shortening recovered every 1/60 second
+
+  // Set to true to enable damping (inertia)
+  // If damping is enabled, you must call controls.update() in your animation loop
+  public enableDamping: boolean;
+  public dampingFactor: number; // fraction of the motion lost every 1/60 second
+  public panDampingFactor: number; // fraction of the pan still to come applied every 1/60 second
+  public dollyDampingFactor: number; // fraction of the dolly still to come applied every 1/60 second
+
+  // This option actually enables dollying in and out; left as "zoom" for backwards compatibility.
+  // Set to false to disable zooming
+  public enableZoom: boolean;
+  public zoomSpeed: number;
+
+  // Set to true to dolly toward the point under the pointer instead of toward the target
+  public zoomToCursor: boolean;
+
+  // Set to false to disable rotating
+  public enableRotate: boolean;
+  public rotateSpeed: number;
+
+  // Set to false to disable panning
+  public enablePan: boolean;
+  public panMode: PanMode;
+
+  // Set to true to automatically rotate around the target
+  // If auto-rotate is enabled, you must call controls.update() in your animation loop
+  public autoRotate: boolean;
+  public autoRotateSpeed: number; // 30 seconds per round when autoRotateSpeed is 2
+
+  public upDampingFactor: number; // fraction of a turn of camera.up followed every 1/60 second
+
+  public rotationMode: RotationMode;
+  public levelDampingFactor: number; // fraction of a trackball's roll away from camera.up undone every 1/60 second
+
+  // What focusAt() picks from: a scene or other object, or a raycast callback; null disables it
+  public picker: THREE.Object3D | PickCallback | null;
+  public focusDollyScale: number; // distance to the target multiplied on focus
+
+  // Size of the viewport, in pixels, that input commands are measured in
+  public viewportSize: () => ViewportSize;
+
+  protected camera: THREE.PerspectiveCamera | THREE.OrthographicCamera;
+
+  // for reset
+  private target0: THREE.Vector3;
+  private position0: THREE.Vector3;
+  private zoom0: number;
+
+  // viewpoints stored by saveView()
+  private views: { [ name: string ]: OrbitControlsState };
+
+  // between the start and end commands of a gesture
+  private gesture: GestureState | null;
+
+  // the gesture whose momentum is still gliding after its end
+  private coasting: GestureState | null;
+
+  // limits held against in the last update(), reported again only once let go
+  private limitsReached: { [ limit: string ]: boolean };
+
+  private EPS: number;
+
+  // the orbit axis, which follows camera.up
+  private up: THREE.Vector3;
+
+  // the camera when change was last dispatched
+  private lastPosition: THREE.Vector3;
+  private lastQuaternion: THREE.Quaternion;
+
+  // time of the last update() that measured its own elapsed time, in seconds
+  private lastUpdateTime: number | null;
+
+  // current position in spherical coordinates
+  private spherical: THREE.Spherical;
+  private sphericalDelta: THREE.Spherical;
+
+  private scale: number;
+  private panOffset: THREE.Vector3;
+  private zoomChanged: boolean;
+
+  // world point that zoomToCursor dollies toward, on the plane through target facing the camera
+  private dollyCursor: THREE.Vector3 | null;
+
+  // the distance to the target wanted while a collision holds the camera closer, otherwise null
+  private desiredRadius: number | null;
+
+  // the world point held under the pointer by a grab pan, see panMode
+  private grabPoint: THREE.Vector3 | null;
+
+  // rotation turns the camera about this point instead of the target, see setPivot()
+  private pivot: THREE.Vector3 | null;
+
+  // animated camera move started by setLookAt, moveTo, rotateTo, dollyTo or zoomTo
+  private transition: Transition | null;
+
+  constructor( camera: THREE.PerspectiveCamera | THREE.OrthographicCamera, viewportSize: () => ViewportSize ) {
+
+    super();
+
+    this.camera = camera;
+    this.viewportSize = viewportSize;
+
+    // Default Settings
+    this.setupDefaults();
+
+    this.advance( 0 );
+
+  }
+
+  protected setupDefaults() {
+
+    // Set to false to disable this control
+    this.enabled = true;
+
+    // "target" sets the location of focus, where the camera orbits around
+    this.target = new THREE.Vector3()
+
+    // for reset
+    this.target0 = this.target.clone();
+    this.position0 = this.camera.position.clone();
+    this.zoom0 = this.camera.zoom;
+
+    this.views = {};
+
+    // How far you can dolly in and out ( PerspectiveCamera only )
+    this.minDistance = 0;
+    this.maxDistance = Infinity;
+
+    // How far you can zoom in and out ( OrthographicCamera only )
+    this.minZoom = 0;
+    this.maxZoom = Infinity;
+
+    // How far you can orbit vertically, upper and lower limits.
+    // Range is 0 to Math.PI radians.
+    this.minPolarAngle = 0; // radians
+    this.maxPolarAngle = Math.PI; // radians
+
+    // How far you can orbit horizontally, upper and lower limits.
+    // If set, must be a sub-interval of the interval [ - Math.PI, Math.PI ].
+    this.minAzimuthAngle = - Infinity; // radians
+    this.maxAzimuthAngle = Infinity; // radians
+
+    // Where the target may go, so panning cannot lose the model; null leaves it free
+    this.targetBounds = null;
+
+    // Above 0, the target stretches past the bounds and springs back, keeping this
+    // fraction of the overshoot every 1/60 second; you must then call controls.update() in your animation loop
+    this.boundaryElasticity = 0; // 0 stops the target at the bounds
+
+    // The camera stays on the side of groundPlane its normal points to, whatever camera.up is,
+    // and in front of any collider between it and the target, by moving closer to the target.
+    // Once clear, it eases back out, so you must call controls.update() in your animation loop
+    this.groundPlane = null;
+    this.colliders = [];
+    this.collisionMargin = 0.1; // world units kept between the camera and what it collides with
+    this.collisionDampingFactor = 0.1; // fraction of the shortening recovered every 1/60 second
+
+    // Set to true to enable damping (inertia)
+    // If damping is enabled, you must call controls.update() in your animation loop
+    this.enableDamping = false;
+    this.dampingFactor = 0.25;
+    this.panDampingFactor = 0.25;
+    this.dollyDampingFactor = 0.25;
+
+    // This option actually enables dollying in and out; left as "zoom" for backwards compatibility.
+    // Set to false to disable zooming
+    this.enableZoom = true;
+    this.zoomSpeed = 1.0;
+
+    // Set to true to dolly toward the point under the pointer instead of toward the target
+    this.zoomToCursor = false;
+
+    // Set to false to disable rotating
+    this.enableRotate = true;
+    this.rotateSpeed = 1.0;
+
+    // Set to false to disable panning
+    this.enablePan = true;
+
+    // Set to "ground" or "grab" for maps and terrain, where dragging slides the world;
+    // grab pans follow the pointer exactly, so they carry no momentum
+    this.panMode = 'screen';
+
+    // Set to true to automatically rotate around the target
+    // If auto-rotate is enabled, you must call controls.update() in your animation loop
+    this.autoRotate = false;
+    this.autoRotateSpeed = 2.0; // 30 seconds per round when autoRotateSpeed is 2
+
+    // camera.up may point anywhere, +Z for GIS and CAD data among others. When it changes, the orbit
+    // turns to it smoothly, so you must call controls.update() in your animation loop; 1 turns at once
+    this.upDampingFactor = 0.1; // fraction of a turn of camera.up followed every 1/60 second
+
+    // Set to "trackball" to tumble over the poles, for molecule and CAD viewers; the polar and azimuth
+    // limits are then ignored. Transitions still fly the camera upright.
+    this.rotationMode = 'orbit';
+    this.levelDampingFactor = 0; // fraction of a trackball's roll away from camera.up undone every 1/60 second
+
+    // What focusAt() picks from: a scene or other object, or a raycast callback; null disables it
+    this.picker = null;
+    this.focusDollyScale = 1; // distance to the target multiplied on focus
+
+    this.gesture = null;
+    this.coasting = null;
+    this.limitsReached = {};
+
+    this.EPS = 0.000001;
+
+    this.up = this.camera.up.clone().normalize();
+
+    this.lastPosition = new THREE.Vector3();
+    this.lastQuaternion = new THREE.Quaternion();
+
+    this.lastUpdateTime = null;
+
+    // current position in spherical coordinates
+    this.spherical = new THREE.Spherical();
+    this.sphericalDelta = new THREE.Spherical();
+
+    this.scale = 1;
+    this.panOffset = new THREE.Vector3();
+    this.zoomChanged = false;
+    this.dollyCursor = null;
+    this.pivot = null;
+    this.grabPoint = null;
+    this.desiredRadius = null;
+
+    this.transition = null;
+
+  }
+
+  public getPolarAngle(): number {
+
+    return this.spherical.phi;
+
+  }
+
+  public getAzimuthalAngle(): number {
+
+    return this.spherical.theta;
+
+  }
+
+  public getCamera(): THREE.PerspectiveCamera | THREE.OrthographicCamera {
+
+    return this.camera;
+
+  }
+
+  // Controls camera instead, keeping the target and the view direction. Between a perspective and
+  // an orthographic camera, the distance or zoom is set so that the area framed at the target stays the same.
+  public switchCamera( camera: THREE.PerspectiveCamera | THREE.OrthographicCamera ): void {
+
+    this.cancelTransition();
+    this.stopMomentum();
+
+    const offset: THREE.Vector3 = new THREE.Vector3().subVectors( this.camera.position, this.target );
+    const height: number = this.getFramedHeight();
+
+    if ( ( camera as THREE.PerspectiveCamera ).isPerspectiveCamera ) {
+      const perspective: THREE.PerspectiveCamera = camera as THREE.PerspectiveCamera;
+
+      const distance: number = height * perspective.zoom / ( 2 * Math.tan( perspective.fov * Math.PI / 360 ) );
+
+      offset.setLength( Math.max( this.minDistance, Math.min( this.maxDistance, distance ) ) );
+
+    } else if ( ( camera as THREE.OrthographicCamera ).isOrthographicCamera ) {
+      const orthographic: THREE.OrthographicCamera = camera as THREE.OrthographicCamera;
+
+      orthographic.zoom = Math.max( this.minZoom, Math.min( this.maxZoom, ( orthographic.top - orthographic.bottom ) / height ) );
+
+    }
+
+    camera.up.copy( this.camera.up );
+    camera.position.copy( this.target ).add( offset );
+    camera.lookAt( this.target );
+    camera.updateProjectionMatrix();
+
+    this.camera = camera;
+    this.desiredRadius = null;
+
+    this.advance( 0 );
+
+  }
+
+  public saveState() {
+
+    this.target0.copy( this.target );
+    this.position0.copy( this.camera.position );
+    this.zoom0 = this.camera.zoom;
+
+  }
+
+  public reset() {
+
+    this.cancelTransition();
+    this.stopMomentum();
+
+    const before: ControlsSnapshot = this.getSnapshot();
+
+    this.target.copy( this.target0 );
+    this.camera.position.copy( this.position0 );
+
+    if ( this.camera.zoom !== this.zoom0 ) {
+
+      this.camera.zoom = this.zoom0;
+      this.camera.updateProjectionMatrix();
+      this.zoomChanged = true;
+
+    }
+
+    this.advance( 0, before );
+
+  }
+
+  // Typed listeners; see OrbitControlsEventMap for what each event carries.
+  public addEventListener<K extends keyof OrbitControlsEventMap>( type: K, listener: ( event: OrbitControlsEventMap[ K ] ) => void ): void {
+
+    super.addEventListener( type, listener as ( event: THREE.Event ) => void );
+
+  }
+
+  public hasEventListener<K extends keyof OrbitControlsEventMap>( type: K, listener: ( event: OrbitControlsEventMap[ K ] ) => void ): boolean {
+
+    // the typings of this three.js leave out the boolean it returns
+    return THREE.EventDispatcher.prototype.hasEventListener.call( this, type, listener );
+
+  }
+
+  public removeEventListener<K extends keyof OrbitControlsEventMap>( type: K, listener: ( event: OrbitControlsEventMap[ K ] ) => void ): void {
+
+    super.removeEventListener( type, listener as ( event: THREE.Event ) => void );
+
+  }
+
+  public toJSON(): OrbitControlsState {
+
+    const spherical: THREE.Spherical = this.getCameraSpherical();
+
+    return {
+      target: this.target.toArray(),
+      spherical: { radius: spherical.radius, phi: spherical.phi, theta: spherical.theta },
+      zoom: this.camera.zoom,
+      up: this.camera.up.toArray(),
+      limits: {
+        minDistance: this.minDistance,
+        maxDistance: this.maxDistance,
+        minZoom: this.minZoom,
+        maxZoom: this.maxZoom,
+        minPolarAngle: this.minPolarAngle,
+        maxPolarAngle: this.maxPolarAngle,
+        minAzimuthAngle: this.minAzimuthAngle,
+        maxAzimuthAngle: this.maxAzimuthAngle
+      }
+    };
+
+  }
+
+  // Restores a state from toJSON(), either as the object or as its JSON string.
+  public fromJSON( json: OrbitControlsState | string, options: AnimateOptions = {} ): Promise<boolean> {
+
+    const state: OrbitControlsState = typeof json === 'string' ? JSON.parse( json ) : json;
+    const limits = state.limits;
+
+    // null is an unbounded limit that went through JSON
+    this.minDistance = limits.minDistance !== null ? limits.minDistance : - Infinity;
+    this.maxDistance = limits.maxDistance !== null ? limits.maxDistance : Infinity;
+    this.minZoom = limits.minZoom !== null ? limits.minZoom : - Infinity;
+    this.maxZoom = limits.maxZoom !== null ? limits.maxZoom : Infinity;
+    this.minPolarAngle = limits.minPolarAngle !== null ? limits.minPolarAngle : - Infinity;
+    this.maxPolarAngle = limits.maxPolarAngle !== null ? limits.maxPolarAngle : Infinity;
+    this.minAzimuthAngle = limits.minAzimuthAngle !== null ? limits.minAzimuthAngle : - Infinity;
+    this.maxAzimuthAngle = limits.maxAzimuthAngle !== null ? limits.maxAzimuthAngle : Infinity;
+
+    // a restored view comes with its own up, which is not turned to gradually
+    this.camera.up.fromArray( state.up );
+    this.up.copy( this.camera.up ).normalize();
+
+    const spherical: THREE.Spherical = new THREE.Spherical( state.spherical.radius, state.spherical.phi, state.spherical.theta );
+    const target: THREE.Vector3 = new THREE.Vector3().fromArray( state.target );
+
+    return this.startTransition( spherical, target, state.zoom, {
+      duration: options.animate === true ? options.duration : 0,
+      easing: options.easing
+    } );
+
+  }
+
+  // Stores the current view, or a given state, under a name for restoreView().
+  public saveView( name: string, state: OrbitControlsState = this.toJSON() ): void {
+
+    this.views[ name ] = state;
+
+  }
+
+  public restoreView( name: string, options: AnimateOptions = {} ): Promise<boolean> {
+
+    if ( this.views.hasOwnProperty( name ) === false ) {
+
+      console.warn( 'THREE.OrbitControls: no view was saved as "' + name + '".' );
+      return Promise.resolve( false );
+
+    }
+
+    return this.fromJSON( this.views[ name ], options );
+
+  }
+
+  public deleteView( name: string ): void {
+
+    delete this.views[ name ];
+
+  }
+
+  public getViewNames(): string[] {
+
+    return Object.keys( this.views );
+
+  }
+
+  // Feeds one input command to the controls; see InputCommand.
+  public input( command: InputCommand ): void {
+
+    this.dispatchEvent( { type: Events.input, command: command } );
+
+    switch ( command.type ) {
+
+      case 'start':
+
+        this.cancelTransition();
+        this.stopMomentum();
+
+        this.grabPoint = null;
+
+        this.gesture = {
+          gesture: command.gesture !== undefined ? command.gesture : null,
+          source: command.source !== undefined ? command.source : null,
+          before: this.getSnapshot()
+        };
+
+        this.dispatchGesture( Events.start, this.gesture );
+        break;
+
+      case 'end':
+
+        this.endGesture();
+        break;
+
+      case 'rotate':
+
+        this.rotate( command.deltaX, command.deltaY );
+        this.advance( 0 );
+        break;
+
+      case 'pan':
+
+        if ( this.panMode === 'grab' && command.x !== undefined && command.y !== undefined ) {
+
+          this.grab( command.x - command.deltaX, command.y - command.deltaY, command.x, command.y );
+
+        } else {
+
+          this.pan( command.deltaX, command.deltaY );
+
+        }
+
+        this.advance( 0 );
+        break;
+
+      case 'dolly':
+
+        this.setDollyCursor( command.x, command.y );
+        this.dolly( command.scale );
+        this.advance( 0 );
+        break;
+
+      case 'twist':
+
+        this.rotateLeft( - command.angle );
+        this.advance( 0 );
+        break;
+
+    }
+
+  }
+
+  // Advances the controls by deltaSeconds, the time since the previous frame.
+  // Without it, the elapsed time is measured since the last update() that measured it.
+  public update( deltaSeconds?: number ): boolean {
+
+    if ( deltaSeconds === undefined ) {
+
+      const now: number = performance.now() / 1000;
+
+      // after a stall, such as a hidden tab, carry on from where things were
+      deltaSeconds = this.lastUpdateTime !== null ? Math.min( now - this.lastUpdateTime, 0.1 ) : 0;
+      this.lastUpdateTime = now;
+
+    }
+
+    this.dispatchEvent( { type: Events.update, deltaSeconds: deltaSeconds } );
+
+    return this.advance( deltaSeconds );
+
+  }
+
+  // update() without the frame's event; the controls call it with 0 to apply changes at once,
+  // passing where the camera was if they have already moved it
+  private advance( deltaSeconds: number, movedFrom: ControlsSnapshot | null = null ): boolean {
+
+    const offset: THREE.Vector3 = new THREE.Vector3();
+
+    this.followUp( deltaSeconds );
+
+    // so camera.up is the orbit axis
+    const quat: THREE.Quaternion = new THREE.Quaternion().setFromUnitVectors( this.up, new THREE.Vector3( 0, 1, 0 ) );
+    const quatInverse: THREE.Quaternion = quat.clone().inverse();
+
+    const position: THREE.Vector3 = this.camera.position;
+
+    offset.copy( position ).sub( this.target );
+
+    // rotate offset to "y-axis-is-up" space
+    offset.applyQuaternion( quat );
+
+    // angle from z-axis around y-axis
+    this.spherical.setFromVector3( offset );
+
+    const before: ControlsSnapshot = movedFrom !== null ? movedFrom : { spherical: this.spherical.clone(), target: this.target.clone() };
+
+    // the camera may be closer than wanted because of a collision
+    const shortenedRadius: number = this.spherical.radius;
+
+    if ( this.desiredRadius !== null ) {
+
+      this.spherical.radius = this.desiredRadius;
+
+    }
+
+    // a trackball turns by the change in theta and phi, whatever their limits
+    const trackball: boolean = this.rotationMode === 'trackball' && this.transition === null;
+    const thetaStart: number = this.spherical.theta;
+    const phiStart: number = this.spherical.phi;
+
+    if ( this.transition !== null ) {
+
+      this.updateTransition( deltaSeconds );
+
+    } else if ( this.autoRotate && this.gesture === null ) {
+
+      this.spherical.theta -= this.getAutoRotationAngle( deltaSeconds );
+
+    }
+
+    this.updateInput( deltaSeconds );
+
+    // where rotation starts from, for turning about the pivot
+    const phi: number = this.spherical.phi;
+    const theta: number = this.spherical.theta;
+
+    const rotateDamping: Damping = this.getDamping( this.dampingFactor, deltaSeconds, true );
+    const panDamping: Damping = this.getDamping( this.panDampingFactor, deltaSeconds, false );
+    const dollyDamping: Damping = this.getDamping( this.dollyDampingFactor, deltaSeconds, false );
+
+    this.spherical.theta += this.sphericalDelta.theta * rotateDamping.share;
+    this.spherical.phi += this.sphericalDelta.phi * rotateDamping.share;
+
+    const reached: { [ limit: string ]: boolean } = {};
+
+    let orientation: THREE.Quaternion | null = null;
+
+    if ( trackball ) {
+
+      orientation = this.tumble( thetaStart, phiStart, deltaSeconds );
+
+      if ( this.pivot !== null ) {
+
+        this.rotateTargetAboutPivot( orientation.clone().multiply( this.camera.quaternion.clone().inverse() ) );
+
+      }
+
+    } else {
+
+      // restrict theta to be between desired limits
+      this.spherical.theta = this.clampToLimits( this.spherical.theta, 'minAzimuthAngle', 'maxAzimuthAngle', reached );
+
+      // restrict phi to be between desired limits
+      this.spherical.phi = this.clampToLimits( this.spherical.phi, 'minPolarAngle', 'maxPolarAngle', reached );
+
+      this.spherical.makeSafe();
+
+      if ( this.pivot !== null ) {
+
+        this.rotateTargetAboutPivot( this.getOrbitRotation( phi, theta, quat, quatInverse ) );
+
+      }
+
+    }
+
+    const radius: number = this.spherical.radius;
+    const zoom: number = this.camera.zoom;
+
+    // scale is multiplicative, so it is damped in log space
+    const dollyScale: number = Math.exp( Math.log( this.scale ) * dollyDamping.share );
+
+    if ( ( this.camera as THREE.OrthographicCamera ).isOrthographicCamera ) {
+
+      this.camera.zoom = this.clampToLimits( this.camera.zoom / dollyScale, 'minZoom', 'maxZoom', reached );
+
+      if ( this.camera.zoom !== zoom ) {
+
+        this.camera.updateProjectionMatrix();
+        this.zoomChanged = true;
+
+      }
+
+    } else {
+
+      this.spherical.radius *= dollyScale;
+
+    }
+
+    // restrict radius to be between desired limits; an orthographic camera is limited by zoom instead
+    if ( ( this.camera as THREE.OrthographicCamera ).isOrthographicCamera !== true ) {
+
+      this.spherical.radius = this.clampToLimits( this.spherical.radius, 'minDistance', 'maxDistance', reached );
+
+    }
+
+    this.dollyTowardCursor( this.spherical.radius / radius * zoom / this.camera.zoom );
+
+    if ( ( this.camera as THREE.OrthographicCamera ).isOrthographicCamera ) {
+
+      this.spherical.radius = this.getOrthographicRadius( this.spherical.radius );
+
+    }
+
+    // move target to panned location
+    this.target.addScaledVector( this.panOffset, panDamping.share );
+
+    this.constrainTarget( deltaSeconds );
+
+    if ( orientation !== null ) {
+
+      // the camera looks down its own - z axis at the target
+      offset.set( 0, 0, this.spherical.radius ).applyQuaternion( orientation );
+
+    } else {
+
+      offset.setFromSpherical( this.spherical );
+
+      // rotate offset back to "camera-up-vector-is-up" space
+      offset.applyQuaternion( quatInverse );
+
+    }
+
+    this.avoidCollisions( offset, shortenedRadius, deltaSeconds );
+
+    position.copy( this.target ).add( offset );
+
+    if ( orientation !== null ) {
+
+      this.camera.quaternion.copy( orientation );
+
+    } else {
+
+      // Object3D.lookAt() would take camera.up, which the orbit axis may still be turning to
+      this.camera.quaternion.setFromRotationMatrix( new THREE.Matrix4().lookAt( position, this.target, this.up ) );
+
+    }
+
+    this.sphericalDelta.theta *= rotateDamping.decay;
+    this.sphericalDelta.phi *= rotateDamping.decay;
+
+    this.panOffset.multiplyScalar( panDamping.decay );
+
+    this.scale = Math.exp( Math.log( this.scale ) * dollyDamping.decay );
+
+    if ( Math.abs( this.scale - 1 ) < this.EPS ) {
+
+      this.scale = 1;
+      this.dollyCursor = null;
+
+    }
+
+    this.releasePivot();
+
+    this.reportLimits( reached );
+
+    // update condition is:
+    // min(camera displacement, camera rotation in radians)^2 > EPS
+    // using small-angle approximation cos(x/2) = 1 - x^2 / 8
+
+    const changed: boolean = this.zoomChanged ||
+      this.lastPosition.distanceToSquared( this.camera.position ) > this.EPS ||
+      8 * ( 1 - this.lastQuaternion.dot( this.camera.quaternion ) ) > this.EPS;
+
+    if ( changed ) {
+
+      this.dispatchChange( before );
+
+      this.lastPosition.copy( this.camera.position );
+      this.lastQuaternion.copy( this.camera.quaternion );
+      this.zoomChanged = false;
+
+    }
+
+    // after the change, which still belongs to the transition or the glide
+    if ( this.transition !== null && this.transition.elapsed >= this.transition.duration ) {
+
+      this.endTransition( true );
+
+    }
+
+    if ( this.coasting !== null && this.isMoving() === false ) {
+
+      this.endInertia();
+
+    }
+
+    return changed;
+
+  }
+
+  // Animated camera moves. Each returns a promise that resolves to true once the move
+  // completes, or to false if it is cancelled by user input or by another move.
+  // Moves are advanced by controls.update(), so it must be called in your animation loop.
+
+  public setLookAt( position: THREE.Vector3, target: THREE.Vector3, options: TransitionOptions = {} ): Promise<boolean> {
+
+    const offset: THREE.Vector3 = new THREE.Vector3().subVectors( position, target );
+
+    // rotate offset to "y-axis-is-up" space
+    offset.applyQuaternion( new THREE.Quaternion().setFromUnitVectors( this.up, new THREE.Vector3( 0, 1, 0 ) ) );
+
+    const spherical: THREE.Spherical = new THREE.Spherical().setFromVector3( offset );
+
+    return this.startTransition( spherical, target, this.camera.zoom, options );
+
+  }
+
+  public moveTo( target: THREE.Vector3, options: TransitionOptions = {} ): Promise<boolean> {
+
+    return this.startTransition( this.getCameraSpherical(), target, this.camera.zoom, options );
+
+  }
+
+  public rotateTo( azimuthAngle: number, polarAngle: number, options: TransitionOptions = {} ): Promise<boolean> {
+
+    const spherical: THREE.Spherical = this.getCameraSpherical();
+
+    spherical.theta = azimuthAngle;
+    spherical.phi = polarAngle;
+
+    return this.startTransition( spherical, this.target, this.camera.zoom, options );
+
+  }
+
+  public dollyTo( distance: number, options: TransitionOptions = {} ): Promise<boolean> {
+
+    const spherical: THREE.Spherical = this.getCameraSpherical();
+
+    spherical.radius = distance;
+
+    return this.startTransition( spherical, this.target, this.camera.zoom, options );
+
+  }
+
+  public zoomTo( zoom: number, options: TransitionOptions = {} ): Promise<boolean> {
+
+    return this.startTransition( this.getCameraSpherical(), this.target, zoom, options );
+
+  }
+
+  // Frame a box, or the bounding box of an object, keeping the current azimuth and polar angle.
+  public fitToBox( box: THREE.Box3 | THREE.Object3D, options: FitOptions = {} ): Promise<boolean> {
+
+    const bounds: THREE.Box3 = box instanceof THREE.Box3 ? box : new THREE.Box3().setFromObject( box );
+
+    if ( bounds.isEmpty() ) {
+
+      console.warn( 'THREE.OrbitControls: fitToBox() was given an empty box.' );
+      return Promise.resolve( false );
+
+    }
+
+    return this.fitToSphere( bounds.getBoundingSphere(), options );
+
+  }
+
+  // Frame a sphere, keeping the current azimuth and polar angle.
+  public fitToSphere( sphere: THREE.Sphere, options: FitOptions = {} ): Promise<boolean> {
+
+    const radius: number = sphere.radius * ( 1 + ( options.padding !== undefined ? options.padding : 0 ) );
+    const transitionOptions: TransitionOptions = {
+      duration: options.animate === true ? options.duration : 0,
+      easing: options.easing
+    };
+
+    const spherical: THREE.Spherical = this.getCameraSpherical();
+    let zoom: number = this.camera.zoom;
+
+    if ( ( this.camera as THREE.PerspectiveCamera ).isPerspectiveCamera ) {
+      const camera: THREE.PerspectiveCamera = this.camera as THREE.PerspectiveCamera;
+
+      // the narrower of the vertical and horizontal fields of view decides the distance
+      const vFov: number = camera.fov * Math.PI / 180;
+      const hFov: number = 2 * Math.atan( Math.tan( vFov / 2 ) * camera.aspect );
+
+      spherical.radius = radius / Math.sin( Math.min( vFov, hFov ) / 2 );
+
+    } else if ( ( this.camera as THREE.OrthographicCamera ).isOrthographicCamera ) {
+      const camera: THREE.OrthographicCamera = this.camera as THREE.OrthographicCamera;
+
+      zoom = Math.min( camera.right - camera.left, camera.top - camera.bottom ) / ( 2 * radius );
+
+    } else {
+
+      console.warn( 'WARNING: OrbitControls.js encountered an unknown camera type - fit disabled.' );
+      return Promise.resolve( false );
+
+    }
+
+    return this.startTransition( spherical, sphere.center, zoom, transitionOptions );
+
+  }
+
+  // Orbit around the point picked at viewport position ( x, y ): moves the target there,
+  // dollying by focusDollyScale, and dispatches "focus" with the object hit.
+  // Resolves to false when nothing is hit.
+  public focusAt( x: number, y: number, options: TransitionOptions = {} ): Promise<boolean> {
+
+    const hit: THREE.Intersection | null = this.pick( x, y );
+
+    if ( hit === null ) return Promise.resolve( false );
+
+    const position: THREE.Vector3 = new THREE.Vector3()
+      .subVectors( this.camera.position, this.target )
+      .multiplyScalar( this.focusDollyScale )
+      .add( hit.point );
+
+    this.dispatchEvent( { type: Events.focus, object: hit.object, point: hit.point.clone() } );
+
+    return this.setLookAt( position, hit.point, options );
+
+  }
+
+  // the nearest hit of the picker at viewport position ( x, y ), or null
+  public pick( x: number, y: number ): THREE.Intersection | null {
+
+    if ( this.picker === null ) return null;
+
+    const raycaster: THREE.Raycaster = this.getRaycaster( x, y );
+
+    if ( this.picker instanceof THREE.Object3D ) {
+
+      const hits: THREE.Intersection[] = raycaster.intersectObject( this.picker, true );
+
+      return hits.length > 0 ? hits[ 0 ] : null;
+
+    }
+
+    return this.picker( raycaster );
+
+  }
+
+  // Rotate about point instead of the target until the rotation, momentum included, comes to rest;
+  // null goes back to the target. The view direction is unchanged, so the polar limits still hold.
+  // Dispatches "pivot" with the point, and with null once it is released, to draw a marker.
+  public setPivot( point: THREE.Vector3 | null ): void {
+
+    if ( point === null && this.pivot === null ) return;
+
+    this.pivot = point !== null ? point.clone() : null;
+
+    this.dispatchEvent( { type: Events.pivot, point: this.pivot !== null ? this.pivot.clone() : null } );
+
+  }
+
+  public cancelTransition(): void {
+
+    if ( this.transition === null ) return;
+
+    this.endTransition( false );
+
+  }
+
+  // Puts the camera straight at spherical about target, at zoom, ending any move and inertia.
+  // Unlike a move of duration 0 it starts no gesture, so only a change is reported.
+  public jumpTo( spherical: THREE.Spherical, target: THREE.Vector3, zoom: number = this.camera.zoom ): void {
+
+    this.cancelTransition();
+    this.stopMomentum();
+
+    this.desiredRadius = null;
+
+    const offset: THREE.Vector3 = new THREE.Vector3().setFromSpherical( spherical );
+
+    // rotate offset back to "camera-up-vector-is-up" space
+    offset.applyQuaternion( new THREE.Quaternion().setFromUnitVectors( new THREE.Vector3( 0, 1, 0 ), this.up ) );
+
+    this.target.copy( this.getAllowedTarget( target ) );
+    this.camera.position.copy( this.target ).add( offset );
+
+    // a trackball keeps the orientation of the camera rather than deriving it
+    this.camera.quaternion.setFromRotationMatrix( new THREE.Matrix4().lookAt( this.camera.position, this.target, this.up ) );
+
+    zoom = Math.max( this.minZoom, Math.min( this.maxZoom, zoom ) );
+
+    if ( zoom !== this.camera.zoom ) {
+
+      this.camera.zoom = zoom;
+      this.camera.updateProjectionMatrix();
+      this.zoomChanged = true;
+
+    }
+
+    this.advance( 0 );
+
+  }
+
+  // Hook for input sources that move the camera continuously, such as held keys; called by update().
+  protected updateInput( deltaSeconds: number ): void {
+
+  }
+
+  protected getZoomScale(): number {
+
+    return Math.pow( 0.95, this.zoomSpeed );
+
+  }
+
+  protected pan( deltaX: number, deltaY: number ): void {
+
+    const offset: THREE.Vector3 = new THREE.Vector3();
+
+    const size: ViewportSize = this.viewportSize();
+
+    if ( ( this.camera as THREE.PerspectiveCamera ).isPerspectiveCamera ) {
+      const camera: THREE.PerspectiveCamera = this.camera as THREE.PerspectiveCamera;
+
+      // perspective
+      const position = camera.position;
+      offset.copy ( position ).sub( this.target );
+      let targetDistance = offset.length();
+
+      // half of the fov is center to top of screen
+      targetDistance *= Math.tan( ( camera.fov / 2 ) * Math.PI / 180.0 )
+
+      // we actually don't use screenWidth, since perspective camera is fixed to screen height
+      this.panLeft( 2 * deltaX * targetDistance / size.height, camera.matrix );
+      this.panUp( 2 * deltaY * targetDistance / size.height, camera.matrix );
+
+    } else if ( ( this.camera as THREE.OrthographicCamera ).isOrthographicCamera ) {
+      const camera: THREE.OrthographicCamera = this.camera as THREE.OrthographicCamera;
+
+
+      this.panLeft( deltaX * ( camera.right - camera.left ) / camera.zoom / size.width, camera.matrix );
+      this.panUp( deltaY * ( camera.top - camera.bottom ) / camera.zoom / size.height, camera.matrix );
+
+    } else {
+
+      // camera neither orthographic nor perspective
+      console.warn( 'WARNING: OrbitControls.js encountered an unknown camera type - pan disabled.' );
+      this.enablePan = false;
+
+    }
+
+  }
+
+  // height of the area in view at the distance of the target
+  private getFramedHeight(): number {
+
+    if ( ( this.camera as THREE.OrthographicCamera ).isOrthographicCamera ) {
+      const camera: THREE.OrthographicCamera = this.camera as THREE.OrthographicCamera;
+
+      return ( camera.top - camera.bottom ) / camera.zoom;
+
+    }
+
+    const camera: THREE.PerspectiveCamera = this.camera as THREE.PerspectiveCamera;
+    const distance: number = this.camera.position.distanceTo( this.target );
+
+    return 2 * distance * Math.tan( camera.fov * Math.PI / 360 ) / camera.zoom;
+
+  }
+
+  // An orthographic view looks the same from any distance, but the near and far planes still clip.
+  // The closest distance to radius that keeps everything within the view's width of the target between them.
+  private getOrthographicRadius( radius: number ): number {
+
+    const camera: THREE.OrthographicCamera = this.camera as THREE.OrthographicCamera;
+
+    const width: number = ( camera.right - camera.left ) / camera.zoom;
+    const height: number = ( camera.top - camera.bottom ) / camera.zoom;
+    const extent: number = Math.sqrt( width * width + height * height ) / 2;
+
+    const nearest: number = camera.near + extent;
+    const farthest: number = camera.far - extent;
+
+    // too shallow a frustum: stay in the middle of it
+    if ( nearest > farthest ) return ( camera.near + camera.far ) / 2;
+
+    return Math.max( nearest, Math.min( farthest, radius ) );
+
+  }
+
+  // current camera offset from target, in "y-axis-is-up" spherical coordinates
+  private getCameraSpherical(): THREE.Spherical {
+
+    const offset: THREE.Vector3 = new THREE.Vector3().subVectors( this.camera.position, this.target );
+
+    offset.applyQuaternion( new THREE.Quaternion().setFromUnitVectors( this.up, new THREE.Vector3( 0, 1, 0 ) ) );
+
+    return new THREE.Spherical().setFromVector3( offset );
+
+  }
+
+  private startTransition( spherical: THREE.Spherical, target: THREE.Vector3, zoom: number, options: TransitionOptions ): Promise<boolean> {
+
+    this.cancelTransition();
+
+    // leftover inertia would fight the transition
+    this.stopMomentum();
+
+    const sphericalFrom: THREE.Spherical = this.getCameraSpherical();
+    const sphericalTo: THREE.Spherical = spherical.clone();
+
+    // clamp the destination up front, so the move does not stall against a limit
+    sphericalTo.theta = Math.max( this.minAzimuthAngle, Math.min( this.maxAzimuthAngle, sphericalTo.theta ) );
+    sphericalTo.phi = Math.max( this.minPolarAngle, Math.min( this.maxPolarAngle, sphericalTo.phi ) );
+    sphericalTo.makeSafe();
+    sphericalTo.radius = Math.max( this.minDistance, Math.min( this.maxDistance, sphericalTo.radius ) );
+
+    // without azimuth limits, take the short way around
+    if ( this.minAzimuthAngle === - Infinity && this.maxAzimuthAngle === Infinity ) {
+
+      sphericalTo.theta = sphericalFrom.theta + getTurn( sphericalFrom.theta, sphericalTo.theta );
+
+    }
+
+    const promise: Promise<boolean> = new Promise<boolean>( ( resolve ) => {
+
+      this.transition = {
+        elapsed: 0,
+        duration: options.duration !== undefined ? options.duration : 1,
+        easing: options.easing !== undefined ? options.easing : easeInOutCubic,
+        sphericalFrom: sphericalFrom,
+        sphericalTo: sphericalTo,
+        targetFrom: this.target.clone(),
+        targetTo: this.getAllowedTarget( target ),
+        zoomFrom: this.camera.zoom,
+        zoomTo: Math.max( this.minZoom, Math.min( this.maxZoom, zoom ) ),
+        before: this.getSnapshot(),
+        resolve: resolve
+      };
+
+    } );
+
+    this.dispatchGesture( Events.start, { gesture: 'transition', source: 'animation', before: this.transition.before } );
+
+    this.advance( 0 );
+
+    return promise;
+
+  }
+
+  // sets spherical and target from the running transition; called by update()
+  private updateTransition( deltaSeconds: number ): void {
+
+    const transition: Transition = this.transition;
+
+    transition.elapsed += deltaSeconds;
+
+    const t: number = transition.duration > 0 ? Math.min( transition.elapsed / transition.duration, 1 ) : 1;
+    const alpha: number = transition.easing( t );
+
+    this.spherical.theta = lerp( transition.sphericalFrom.theta, transition.sphericalTo.theta, alpha );
+    this.spherical.phi = lerp( transition.sphericalFrom.phi, transition.sphericalTo.phi, alpha );
+    this.spherical.radius = lerp( transition.sphericalFrom.radius, transition.sphericalTo.radius, alpha );
+
+    this.target.lerpVectors( transition.targetFrom, transition.targetTo, alpha );
+
+    if ( transition.zoomFrom !== transition.zoomTo ) {
+
+      this.camera.zoom = lerp( transition.zoomFrom, transition.zoomTo, alpha );
+      this.camera.updateProjectionMatrix();
+      this.zoomChanged = true;
+
+    }
+
+  }
+
+  // ends the running transition, which update() completes once its duration has passed
+  private endTransition( completed: boolean ): void {
+
+    const transition: Transition = this.transition;
+
+    this.transition = null;
+
+    this.dispatchGesture( Events.end, { gesture: 'transition', source: 'animation', before: transition.before } );
+
+    transition.resolve( completed );
+
+  }
+
+  // With damping, a rotation delta is the motion of one 1/60 second frame, and it decays by
+  // dampingFactor every frame. Over deltaSeconds that sums to a geometric series, whatever the
+  // frame rate. Pan and dolly carry no such momentum: dampingFactor of what is left of them is
+  // applied every frame, so that they add up to exactly the input, damped or not.
+  private getDamping( dampingFactor: number, deltaSeconds: number, momentum: boolean ): Damping {
+
+    if ( this.enableDamping === false || ( momentum === false && dampingFactor <= 0 ) ) {
+
+      return { share: 1, decay: 0 };
+
+    }
+
+    const frames: number = deltaSeconds * 60;
+    const decay: number = Math.pow( 1 - dampingFactor, frames );
+
+    if ( momentum === false ) {
+
+      return { share: 1 - decay, decay: decay };
+
+    }
+
+    return {
+      share: dampingFactor > 0 ? ( 1 - decay ) / dampingFactor : frames,
+      decay: decay
+    };
+
+  }
+
+  // the allowed point nearest to point under targetBounds
+  private getAllowedTarget( point: THREE.Vector3 ): THREE.Vector3 {
+
+    if ( this.targetBounds === null ) return point.clone();
+
+    if ( this.targetBounds instanceof THREE.Box3 || this.targetBounds instanceof THREE.Sphere ) {
+
+      return this.targetBounds.clampPoint( point );
+
+    }
+
+    return this.targetBounds( point.clone() ).clone();
+
+  }
+
+  // keeps the target within targetBounds, softly with boundaryElasticity; called by update()
+  private constrainTarget( deltaSeconds: number ): void {
+
+    const allowed: THREE.Vector3 = this.getAllowedTarget( this.target );
+    const overshoot: THREE.Vector3 = new THREE.Vector3().subVectors( this.target, allowed );
+
+    if ( overshoot.lengthSq() < this.EPS ) return;
+
+    // momentum heading further out is spent against the bounds
+    const outward: number = this.panOffset.dot( overshoot ) / overshoot.lengthSq();
+
+    if ( outward > 0 ) {
+
+      this.panOffset.addScaledVector( overshoot, - outward );
+
+    }
+
+    const kept: number = this.boundaryElasticity > 0 ? Math.pow( this.boundaryElasticity, deltaSeconds * 60 ) : 0;
+
+    const requested: THREE.Vector3 = this.target.clone();
+
+    this.target.copy( allowed ).addScaledVector( overshoot, kept );
+
+    this.dispatchEvent( { type: Events.constraint, requested: requested, allowed: allowed } );
+
+  }
+
+  // stops the glide left over from earlier input
+  private stopMomentum(): void {
+
+    if ( this.coasting !== null ) {
+
+      this.endInertia();
+
+    }
+
+    this.sphericalDelta.set( 0, 0, 0 );
+    this.panOffset.set( 0, 0, 0 );
+    this.scale = 1;
+    this.dollyCursor = null;
+
+    this.setPivot( null );
+
+  }
+
+  // Shortens offset, the camera's world offset from the target, to keep the camera out of the
+  // ground and colliders, and lengthens it back toward its wanted length once they clear.
+  private avoidCollisions( offset: THREE.Vector3, shortenedRadius: number, deltaSeconds: number ): void {
+
+    const radius: number = offset.length();
+
+    if ( ( this.groundPlane === null && this.colliders.length === 0 ) || radius < this.EPS ) {
+
+      this.desiredRadius = null;
+      return;
+
+    }
+
+    let allowedRadius: number = radius;
+
+    // ease back out from where the last collision left the camera
+    if ( this.desiredRadius !== null && shortenedRadius < radius ) {
+
+      const kept: number = Math.pow( 1 - this.collisionDampingFactor, deltaSeconds * 60 );
+
+      allowedRadius = radius - ( radius - shortenedRadius ) * kept;
+
+    }
+
+    allowedRadius = Math.min( allowedRadius, this.getFreeDistance( offset.clone().divideScalar( radius ), radius ) );
+
+    if ( radius - allowedRadius < this.EPS ) {
+
+      this.desiredRadius = null;
+      return;
+
+    }
+
+    this.desiredRadius = radius;
+
+    offset.multiplyScalar( Math.max( allowedRadius, this.EPS ) / radius );
+
+  }
+
+  // how far the camera can go from the target along direction, up to far, keeping collisionMargin
+  private getFreeDistance( direction: THREE.Vector3, far: number ): number {
+
+    let distance: number = far;
+
+    if ( this.groundPlane !== null ) {
+
+      const height: number = this.groundPlane.distanceToPoint( this.target );
+      const descent: number = - this.groundPlane.normal.dot( direction );
+
+      // only a target above the ground can keep the camera above it
+      if ( height > 0 && descent > 0 ) {
+
+        distance = Math.min( distance, ( height - this.collisionMargin ) / descent );
+
+      }
+
+    }
+
+    if ( this.colliders.length > 0 ) {
+
+      const raycaster: THREE.Raycaster = new THREE.Raycaster( this.target, direction, 0, far + this.collisionMargin );
+      const hits: THREE.Intersection[] = raycaster.intersectObjects( this.colliders, true );
+
+      if ( hits.length > 0 ) {
+
+        distance = Math.min( distance, hits[ 0 ].distance - this.collisionMargin );
+
+      }
+
+    }
+
+    return Math.max( distance, 0 );
+
+  }
+
+  private endGesture(): void {
+
+    if ( this.gesture === null ) return;
+
+    const gesture: GestureState = this.gesture;
+
+    this.gesture = null;
+    this.grabPoint = null;
+
+    // with damping, the gesture glides on until inertiaEnd
+    if ( this.isMoving() ) {
+
+      this.coasting = gesture;
+
+    }
+
+    this.dispatchGesture( Events.end, gesture );
+
+    this.releasePivot();
+
+  }
+
+  // whether momentum is still moving the camera
+  private isMoving(): boolean {
+
+    return Math.abs( this.sphericalDelta.theta ) > this.EPS ||
+      Math.abs( this.sphericalDelta.phi ) > this.EPS ||
+      this.panOffset.lengthSq() > this.EPS ||
+      this.scale !== 1;
+
+  }
+
+  private endInertia(): void {
+
+    const gesture: GestureState = this.coasting;
+
+    this.coasting = null;
+
+    this.dispatchEvent( { type: Events.inertiaEnd, gesture: gesture.gesture, source: gesture.source } );
+
+  }
+
+  // value clamped to the limits named min and max, noting in reached the one it was held at
+  private clampToLimits( value: number, min: Limit, max: Limit, reached: { [ limit: string ]: boolean } ): number {
+
+    if ( value < this[ min ] ) {
+
+      reached[ min ] = true;
+      return this[ min ];
+
+    }
+
+    if ( value > this[ max ] ) {
+
+      reached[ max ] = true;
+      return this[ max ];
+
+    }
+
+    return value;
+
+  }
+
+  // dispatches limitReached for the limits newly reached
+  private reportLimits( reached: { [ limit: string ]: boolean } ): void {
+
+    Object.keys( reached ).forEach( ( limit: Limit ) => {
+
+      if ( this.limitsReached[ limit ] !== true ) {
+
+        this.dispatchEvent( { type: Events.limitReached, limit: limit, value: this[ limit ] } );
+
+      }
+
+    } );
+
+    this.limitsReached = reached;
+
+  }
+
+  private getSnapshot(): ControlsSnapshot {
+
+    return { spherical: this.getCameraSpherical(), target: this.target.clone() };
+
+  }
+
+  // the gesture behind a change: the one in progress, a transition, or one still gliding
+  private getActiveGesture(): { gesture: Gesture | null, source: InputSource | null } {
+
+    if ( this.gesture !== null ) return this.gesture;
+    if ( this.transition !== null ) return { gesture: 'transition', source: 'animation' };
+    if ( this.coasting !== null ) return this.coasting;
+
+    return { gesture: null, source: null };
+
+  }
+
+  private dispatchChange( before: ControlsSnapshot ): void {
+
+    const active: { gesture: Gesture | null, source: InputSource | null } = this.getActiveGesture();
+
+    this.dispatchEvent( { type: Events.change, gesture: active.gesture, source: active.source, before: before, after: this.getSnapshot() } );
+
+  }
+
+  private dispatchGesture( type: Events, state: { gesture: Gesture | null, source: InputSource | null, before: ControlsSnapshot } ): void {
+
+    this.dispatchEvent( { type: type, gesture: state.gesture, source: state.source, before: state.before, after: this.getSnapshot() } );
+
+  }
+
+  // lets go of the pivot once nothing turns about it any more
+  private releasePivot(): void {
+
+    if ( this.pivot === null || this.gesture !== null ) return;
+
+    if ( Math.abs( this.sphericalDelta.theta ) < this.EPS && Math.abs( this.sphericalDelta.phi ) < this.EPS ) {
+
+      this.setPivot( null );
+
+    }
+
+  }
+
+  // turns the orbit axis toward camera.up by upDampingFactor; called by update()
+  private followUp( deltaSeconds: number ): void {
+
+    const up: THREE.Vector3 = this.camera.up.clone().normalize();
+
+    if ( this.upDampingFactor >= 1 || this.up.distanceToSquared( up ) < this.EPS ) {
+
+      this.up.copy( up );
+      return;
+
+    }
+
+    const share: number = 1 - Math.pow( 1 - this.upDampingFactor, deltaSeconds * 60 );
+    const turn: THREE.Quaternion = new THREE.Quaternion().slerp( new THREE.Quaternion().setFromUnitVectors( this.up, up ), share );
+
+    this.up.applyQuaternion( turn ).normalize();
+
+  }
+
+  // Orbiting the camera about the pivot is orbiting it about the target, as update() does,
+  // while the target itself swings about the pivot by the same world rotation.
+  private rotateTargetAboutPivot( rotation: THREE.Quaternion ): void {
+
+    this.target.sub( this.pivot ).applyQuaternion( rotation ).add( this.pivot );
+
+  }
+
+  // the world rotation of an orbit from ( phi, theta ) to the current spherical angles
+  private getOrbitRotation( phi: number, theta: number, quat: THREE.Quaternion, quatInverse: THREE.Quaternion ): THREE.Quaternion {
+
+    const from: THREE.Vector3 = new THREE.Vector3().setFromSpherical( new THREE.Spherical( 1, phi, theta ) );
+    const tilted: THREE.Vector3 = new THREE.Vector3().setFromSpherical( new THREE.Spherical( 1, this.spherical.phi, theta ) );
+
+    // tilt within the vertical plane, then turn about the up axis
+    const rotation: THREE.Quaternion = new THREE.Quaternion()
+      .setFromAxisAngle( new THREE.Vector3( 0, 1, 0 ), this.spherical.theta - theta )
+      .multiply( new THREE.Quaternion().setFromUnitVectors( from, tilted ) );
+
+    // from "y-axis-is-up" space back to world space
+    return rotation.premultiply( quatInverse ).multiply( quat );
+
+  }
+
+  // The camera orientation after turning about its own up and right axes by the change in
+  // theta and phi since ( thetaStart, phiStart ), rolled back toward camera.up by levelDampingFactor.
+  private tumble( thetaStart: number, phiStart: number, deltaSeconds: number ): THREE.Quaternion {
+
+    const orientation: THREE.Quaternion = this.camera.quaternion.clone()
+      .multiply( new THREE.Quaternion().setFromAxisAngle( new THREE.Vector3( 0, 1, 0 ), this.spherical.theta - thetaStart ) )
+      .multiply( new THREE.Quaternion().setFromAxisAngle( new THREE.Vector3( 1, 0, 0 ), this.spherical.phi - phiStart ) );
+
+    if ( this.levelDampingFactor > 0 ) {
+
+      const direction: THREE.Vector3 = new THREE.Vector3( 0, 0, - 1 ).applyQuaternion( orientation );
+      const level: THREE.Quaternion = new THREE.Quaternion().setFromRotationMatrix(
+        new THREE.Matrix4().lookAt( new THREE.Vector3(), direction, this.up )
+      );
+
+      orientation.slerp( level, 1 - Math.pow( 1 - this.levelDampingFactor, deltaSeconds * 60 ) );
+
+    }
+
+    return orientation;
+
+  }
+
+  private getAutoRotationAngle( deltaSeconds: number ): number {
+
+    return 2 * Math.PI / 60 * this.autoRotateSpeed * deltaSeconds;
+
+  }
+
+  private rotate( deltaX: number, deltaY: number ): void {
+
+    const size: ViewportSize = this.viewportSize();
+
+    // rotating across whole screen goes 360 degrees around
+    this.rotateLeft( 2 * Math.PI * deltaX / size.width * this.rotateSpeed );
+
+    // rotating up and down along whole screen attempts to go 360, but limited to 180
+    this.rotateUp( 2 * Math.PI * deltaY / size.height * this.rotateSpeed );
+
+  }
+
+  protected rotateLeft( angle: number ): void {
+
+    this.sphericalDelta.theta -= angle;
+
+  }
+
+  protected rotateUp( angle: number ): void {
+
+    this.sphericalDelta.phi -= angle;
+
+  }
+
+  private panLeft( distance: number, objectMatrix: THREE.Matrix4 ): void {
+
+    const v: THREE.Vector3 = new THREE.Vector3();
+
+    v.setFromMatrixColumn( objectMatrix, 0 ) // get X column of objectMatrix
+
+    if ( this.panMode !== 'screen' ) {
+
+      // level with the ground
+      v.projectOnPlane( this.up ).normalize();
+
+    }
+
+    v.multiplyScalar( - distance );
+
+    this.panOffset.add( v );
+
+  }
+
+  private panUp( distance: number, objectMatrix: THREE.Matrix4 ): void {
+
+    const v: THREE.Vector3 = new THREE.Vector3();
+
+    if ( this.panMode !== 'screen' ) {
+
+      // forward along the ground, square to the camera's X column
+      v.setFromMatrixColumn( objectMatrix, 0 );
+      v.crossVectors( this.up, v ).normalize();
+
+    } else {
+
+      v.setFromMatrixColumn( objectMatrix, 1 ); // get Y column of objectMatrix
+
+    }
+
+    v.multiplyScalar( distance );
+
+    this.panOffset.add( v );
+
+  }
+
+  // Moves the target along the ground plane through it so that the world point under viewport
+  // position ( fromX, fromY ) when the pan started ends up under ( toX, toY ).
+  private grab( fromX: number, fromY: number, toX: number, toY: number ): void {
+
+    const ground: THREE.Plane = new THREE.Plane().setFromNormalAndCoplanarPoint( this.up, this.target );
+
+    if ( this.grabPoint === null ) {
+
+      this.grabPoint = this.getGroundPoint( ground, fromX, fromY );
+
+    }
+
+    const point: THREE.Vector3 | null = this.getGroundPoint( ground, toX, toY );
+
+    // toward the horizon there is nothing to hold on to; slide instead
+    if ( this.grabPoint === null || point === null ) {
+
+      this.pan( toX - fromX, toY - fromY );
+      return;
+
+    }
+
+    // this replaces whatever of the last move is still pending
+    this.panOffset.subVectors( this.grabPoint, point );
+
+  }
+
+  // where viewport position ( x, y ) meets ground in front of the camera, or null
+  private getGroundPoint( ground: THREE.Plane, x: number, y: number ): THREE.Vector3 | null {
+
+    const ray: THREE.Ray = this.getRaycaster( x, y ).ray;
+    const point: THREE.Vector3 | null = ray.intersectPlane( ground );
+
+    if ( point === null || point.distanceTo( ray.origin ) > this.camera.far ) return null;
+
+    return point;
+
+  }
+
+  // dollyScale multiplies the distance to the target ( the zoom divides by it )
+  protected dolly( dollyScale: number ): void {
+
+    if ( ( this.camera as THREE.PerspectiveCamera ).isPerspectiveCamera ||
+      ( this.camera as THREE.OrthographicCamera ).isOrthographicCamera ) {
+
+      this.scale *= dollyScale;
+
+    } else {
+
+      console.warn( 'WARNING: OrbitControls.js encountered an unknown camera type - dolly/zoom disabled.' );
+      this.enableZoom = false;
+
+    }
+
+  }
+
+  // a ray from the camera through viewport position ( x, y )
+  protected getRaycaster( x: number, y: number ): THREE.Raycaster {
+
+    const size: ViewportSize = this.viewportSize();
+
+    const pointer: THREE.Vector2 = new THREE.Vector2(
+      x / size.width * 2 - 1,
+      - y / size.height * 2 + 1
+    );
+
+    this.camera.updateMatrixWorld( false );
+
+    const raycaster: THREE.Raycaster = new THREE.Raycaster();
+    raycaster.setFromCamera( pointer, this.camera );
+
+    return raycaster;
+
+  }
+
+  // remembers the world point at viewport position ( x, y ), for zoomToCursor
+  protected setDollyCursor( x?: number, y?: number ): void {
+
+    if ( this.zoomToCursor === false || x === undefined || y === undefined ) {
+
+      this.dollyCursor = null;
+      return;
+
+    }
+
+    const raycaster: THREE.Raycaster = this.getRaycaster( x, y );
+
+    const plane: THREE.Plane = new THREE.Plane().setFromNormalAndCoplanarPoint( this.camera.getWorldDirection(), this.target );
+
+    this.dollyCursor = raycaster.ray.intersectPlane( plane );
+
+  }
+
+  // scaling the view by `ratio` about the dolly cursor, rather than about the target,
+  // keeps the cursor point fixed on screen; the difference is a shift of the target.
+  // It is applied in the frame of the dolly, as pan momentum would carry it on afterwards.
+  private dollyTowardCursor( ratio: number ): void {
+
+    if ( this.dollyCursor === null || ratio === 1 ) return;
+
+    this.target.lerp( this.dollyCursor, 1 - ratio );
+
+  }
+
+  get center() {
+
+    console.warn( 'THREE.OrbitControls: .center has been renamed to .target' );
+    return this.target;
+
+  }
+
+  get noZoom(): boolean {
+
+    console.warn( 'THREE.OrbitControls: .noZoom has been deprecated. Use .enableZoom instead.' );
+    return ! this.enableZoom;
+
+  }
+
+  set noZoom( value: boolean ) {
+
+    console.warn( 'THREE.OrbitControls: .noZoom has been deprecated. Use .enableZoom instead.' );
+    this.enableZoom = ! value;
+
+  }
+
+  get noRotate(): boolean {
+
+    console.warn( 'THREE.OrbitControls: .noRotate has been deprecated. Use .enableRotate instead.' );
+    return ! this.enableRotate;
+
+  }
+
+  set noRotate( value: boolean ) {
+
+    console.warn( 'THREE.OrbitControls: .noRotate has been deprecated. Use .enableRotate instead.' );
+    this.enableRotate = ! value;
+
+  }
+
+  get noPan(): boolean {
+
+    console.warn( 'THREE.OrbitControls: .noPan has been deprecated. Use .enablePan instead.' );
+    return ! this.enablePan;
+
+  }
+
+  set noPan( value: boolean ) {
+
+    console.warn( 'THREE.OrbitControls: .noPan has been deprecated. Use .enablePan instead.' );
+    this.enablePan = ! value;
+
+  }
+
+  get staticMoving(): boolean {
+
+    console.warn( 'THREE.OrbitControls: .staticMoving has been deprecated. Use .enableDamping instead.' );
+    return ! this.enableDamping;
+
+  }
+
+  set staticMoving( value: boolean ) {
+
+    console.warn( 'THREE.OrbitControls: .staticMoving has been deprecated. Use .enableDamping instead.' );
+    this.enableDamping = ! value;
+
+  }
+
+  get dynamicDampeningFactor(): number {
+
+    console.warn( 'THREE.OrbitControls: .dynamicDampingFactor has been renamed. Use .dampingFactor instead.' );
+    return this.dampingFactor;
+
+  }
+
+  set dynamicDampeningFactor( value: number ) {
+
+    console.warn( 'THREE.OrbitControls: .dynamicDampingFactor has been renamed. Use .dampingFactor instead.' );
+    this.dampingFactor = value;
+
+  }
+
+}
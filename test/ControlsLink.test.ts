@@ -0,0 +1,94 @@
+import * as assert from 'assert';
+import * as THREE from 'three';
+import OrbitControlsCore from '../src/OrbitControlsCore';
+import ControlsLink from '../src/ControlsLink';
+
+describe( 'ControlsLink', () => {
+
+  function createControls(): OrbitControlsCore {
+
+    const camera: THREE.PerspectiveCamera = new THREE.PerspectiveCamera( 50, 4 / 3, 0.1, 1000 );
+
+    camera.position.set( 0, 0, 10 );
+
+    return new OrbitControlsCore( camera, () => ( { width: 800, height: 600 } ) );
+
+  }
+
+  function near( a: number, b: number ): boolean {
+
+    return Math.abs( a - b ) < 1e-6;
+
+  }
+
+  it( 'moves each set of controls with the other', () => {
+
+    const leader: OrbitControlsCore = createControls();
+    const follower: OrbitControlsCore = createControls();
+    const link: ControlsLink = new ControlsLink( leader, follower );
+
+    leader.rotateTo( 1, 1, { duration: 0 } );
+
+    assert.ok( near( follower.getAzimuthalAngle(), 1 ) && near( follower.getPolarAngle(), 1 ) );
+
+    follower.moveTo( new THREE.Vector3( 1, 2, 3 ), { duration: 0 } );
+
+    assert.ok( leader.target.distanceTo( new THREE.Vector3( 1, 2, 3 ) ) < 1e-6 );
+
+    link.dispose();
+
+  } );
+
+  it( 'moves only the follower when one way', () => {
+
+    const leader: OrbitControlsCore = createControls();
+    const follower: OrbitControlsCore = createControls();
+    const link: ControlsLink = new ControlsLink( leader, follower, { oneWay: true } );
+
+    follower.rotateTo( 1, 1, { duration: 0 } );
+
+    assert.ok( near( leader.getAzimuthalAngle(), 0 ) );
+
+    leader.rotateTo( - 1, 1, { duration: 0 } );
+
+    assert.ok( near( follower.getAzimuthalAngle(), - 1 ) );
+
+    link.dispose();
+
+  } );
+
+  it( 'adds its offsets going to the follower and takes them off coming back', () => {
+
+    const leader: OrbitControlsCore = createControls();
+    const follower: OrbitControlsCore = createControls();
+    const link: ControlsLink = new ControlsLink( leader, follower, { azimuthOffset: 0.5, targetOffset: new THREE.Vector3( 1, 0, 0 ) } );
+
+    assert.ok( near( follower.getAzimuthalAngle(), 0.5 ) );
+    assert.ok( follower.target.distanceTo( new THREE.Vector3( 1, 0, 0 ) ) < 1e-6 );
+
+    follower.rotateTo( 1, Math.PI / 2, { duration: 0 } );
+
+    assert.ok( near( leader.getAzimuthalAngle(), 0.5 ) );
+
+    link.dispose();
+
+  } );
+
+  it( 'passes a change round a ring of links once', () => {
+
+    const controls: OrbitControlsCore[] = [ createControls(), createControls(), createControls() ];
+    const links: ControlsLink[] = controls.map( ( leader, i ) => new ControlsLink( leader, controls[ ( i + 1 ) % 3 ] ) );
+    const changes: number[] = [ 0, 0, 0 ];
+
+    controls.forEach( ( each, i ) => each.addEventListener( 'change', () => changes[ i ] ++ ) );
+
+    controls[ 0 ].rotateTo( 1, 1, { duration: 0 } );
+
+    assert.deepEqual( changes, [ 1, 1, 1 ] );
+    assert.ok( controls.every( ( each ) => near( each.getAzimuthalAngle(), 1 ) ) );
+
+    links.forEach( ( link ) => link.dispose() );
+
+  } );
+
+} );
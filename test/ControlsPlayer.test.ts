@@ -0,0 +1,61 @@
+import * as assert from 'assert';
+import * as THREE from 'three';
+import OrbitControlsCore, { OrbitControlsState } from '../src/OrbitControlsCore';
+import ControlsRecorder, { Recording } from '../src/ControlsRecorder';
+import ControlsPlayer from '../src/ControlsPlayer';
+
+describe( 'ControlsPlayer', () => {
+
+  function createControls( width: number, height: number ): OrbitControlsCore {
+
+    const camera: THREE.PerspectiveCamera = new THREE.PerspectiveCamera( 50, width / height, 0.1, 1000 );
+
+    camera.position.set( 0, 0, 10 );
+
+    return new OrbitControlsCore( camera, () => ( { width: width, height: height } ) );
+
+  }
+
+  it( 'replays commands with the viewport size, settings and limits they were recorded with', () => {
+
+    const recorded: OrbitControlsCore = createControls( 800, 600 );
+
+    recorded.enableDamping = true;
+    recorded.rotateSpeed = 2;
+    recorded.minDistance = 2;
+    recorded.maxDistance = 50;
+
+    const recorder: ControlsRecorder = new ControlsRecorder( recorded );
+
+    recorder.start();
+
+    recorded.input( { type: 'start', gesture: 'rotate' } );
+    recorded.input( { type: 'rotate', deltaX: 40, deltaY: 20 } );
+    recorded.input( { type: 'end' } );
+
+    for ( let i = 0; i < 60; i ++ ) recorded.update( 1 / 60 );
+
+    const recording: Recording = recorder.stop();
+
+    // replayed on controls of another size and with the default settings
+    const controls: OrbitControlsCore = createControls( 400, 300 );
+    const player: ControlsPlayer = new ControlsPlayer( controls, JSON.stringify( recording ) );
+
+    player.seek( recording.duration );
+
+    const expected: OrbitControlsState = recorded.toJSON();
+    const actual: OrbitControlsState = controls.toJSON();
+
+    assert.ok( Math.abs( actual.spherical.theta - expected.spherical.theta ) < 1e-9 );
+    assert.ok( Math.abs( actual.spherical.phi - expected.spherical.phi ) < 1e-9 );
+
+    // and the controls get their own back
+    assert.strictEqual( controls.enableDamping, false );
+    assert.strictEqual( controls.rotateSpeed, 1 );
+    assert.strictEqual( controls.minDistance, 0 );
+    assert.strictEqual( controls.maxDistance, Infinity );
+    assert.strictEqual( controls.viewportSize().width, 400 );
+
+  } );
+
+} );
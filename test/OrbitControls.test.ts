@@ -0,0 +1,265 @@
+import * as assert from 'assert';
+import * as THREE from 'three';
+import OrbitControls, { Action } from '../src/OrbitControls';
+
+// Just enough of an EventTarget to count listeners. Like the DOM, it ignores a listener
+// added twice for the same type.
+class StubEventTarget {
+  public listeners: { [ type: string ]: EventListener[] } = {};
+
+  public addEventListener( type: string, listener: EventListener ): void {
+
+    const listeners: EventListener[] = this.listeners[ type ] = this.listeners[ type ] || [];
+
+    if ( listeners.indexOf( listener ) === - 1 ) listeners.push( listener );
+
+  }
+
+  public removeEventListener( type: string, listener: EventListener ): void {
+
+    const listeners: EventListener[] = this.listeners[ type ] || [];
+    const index: number = listeners.indexOf( listener );
+
+    if ( index !== - 1 ) listeners.splice( index, 1 );
+
+  }
+
+  public countListeners(): number {
+
+    return Object.keys( this.listeners ).reduce( ( count, type ) => count + this.listeners[ type ].length, 0 );
+
+  }
+
+}
+
+class StubElement extends StubEventTarget {
+  public style: { touchAction: string } = { touchAction: '' };
+  public attributes: { [ name: string ]: string } = {};
+
+  public clientWidth: number = 800;
+  public clientHeight: number = 600;
+  public offsetWidth: number = 800;
+  public offsetHeight: number = 600;
+  public clientLeft: number = 0;
+  public clientTop: number = 0;
+
+  public getBoundingClientRect(): { left: number, top: number, width: number, height: number } {
+
+    return { left: 0, top: 0, width: this.offsetWidth, height: this.offsetHeight };
+
+  }
+
+  // calls the listeners for type with an event made of fields
+  public dispatch( type: string, fields: { [ name: string ]: any } ): void {
+
+    const event: any = { type: type, target: this, preventDefault: () => {}, stopPropagation: () => {} };
+
+    Object.keys( fields ).forEach( ( name ) => event[ name ] = fields[ name ] );
+
+    ( this.listeners[ type ] || [] ).slice().forEach( ( listener ) => listener( event ) );
+
+  }
+
+  public hasAttribute( name: string ): boolean {
+
+    return this.attributes.hasOwnProperty( name );
+
+  }
+
+  public setAttribute( name: string, value: string ): void {
+
+    this.attributes[ name ] = value;
+
+  }
+
+  public removeAttribute( name: string ): void {
+
+    delete this.attributes[ name ];
+
+  }
+
+}
+
+describe( 'OrbitControls', () => {
+
+  let window: StubEventTarget;
+
+  beforeEach( () => {
+
+    window = new StubEventTarget();
+
+    ( global as any ).window = window;
+    ( global as any ).document = new StubEventTarget();
+
+  } );
+
+  afterEach( () => {
+
+    delete ( global as any ).window;
+    delete ( global as any ).document;
+
+  } );
+
+  function createControls( element: StubElement ): OrbitControls {
+
+    const camera: THREE.PerspectiveCamera = new THREE.PerspectiveCamera( 50, 1, 0.1, 1000 );
+
+    camera.position.set( 0, 0, 10 );
+
+    return new OrbitControls( camera, element as any );
+
+  }
+
+  it( 'leaves no listeners behind after dispose()', () => {
+
+    const element: StubElement = new StubElement();
+    const controls: OrbitControls = createControls( element );
+
+    assert.ok( element.countListeners() > 0 );
+    assert.ok( window.countListeners() > 0 );
+
+    controls.dispose();
+
+    assert.strictEqual( element.countListeners(), 0 );
+    assert.strictEqual( window.countListeners(), 0 );
+
+  } );
+
+  it( 'restores the element after dispose()', () => {
+
+    const element: StubElement = new StubElement();
+    const controls: OrbitControls = createControls( element );
+
+    assert.strictEqual( element.style.touchAction, 'none' );
+    assert.strictEqual( element.attributes.tabindex, '0' );
+
+    controls.dispose();
+
+    assert.strictEqual( element.style.touchAction, '' );
+    assert.strictEqual( element.hasAttribute( 'tabindex' ), false );
+
+  } );
+
+  it( 'does not add listeners twice when connect() is called again', () => {
+
+    const element: StubElement = new StubElement();
+    const controls: OrbitControls = createControls( element );
+
+    const elementListeners: number = element.countListeners();
+    const windowListeners: number = window.countListeners();
+
+    controls.connect( element as any );
+
+    assert.strictEqual( element.countListeners(), elementListeners );
+    assert.strictEqual( window.countListeners(), windowListeners );
+
+    controls.dispose();
+
+    assert.strictEqual( element.countListeners(), 0 );
+    assert.strictEqual( window.countListeners(), 0 );
+
+  } );
+
+  it( 'moves its listeners when connected to another element', () => {
+
+    const first: StubElement = new StubElement();
+    const second: StubElement = new StubElement();
+    const controls: OrbitControls = createControls( first );
+
+    const listeners: number = first.countListeners();
+
+    controls.connect( second as any );
+
+    assert.strictEqual( first.countListeners(), 0 );
+    assert.strictEqual( second.countListeners(), listeners );
+
+    controls.dispose();
+
+    assert.strictEqual( second.countListeners(), 0 );
+
+  } );
+
+  it( 'folds keys pressed during a drag into the drag', () => {
+
+    const element: StubElement = new StubElement();
+    const controls: OrbitControls = createControls( element );
+    const events: string[] = [];
+
+    controls.addEventListener( 'start', ( event ) => events.push( 'start ' + event.source ) );
+    controls.addEventListener( 'end', ( event ) => events.push( 'end ' + event.source ) );
+
+    const pointer: { [ name: string ]: any } = { pointerId: 1, pointerType: 'mouse', button: THREE.MOUSE.LEFT, clientX: 100, clientY: 100 };
+
+    element.dispatch( 'pointerdown', pointer );
+    element.dispatch( 'keydown', { code: 'KeyW', repeat: false } );
+    element.dispatch( 'pointermove', { pointerId: 1, pointerType: 'mouse', clientX: 150, clientY: 100 } );
+
+    assert.deepEqual( events, [ 'start mouse' ] );
+
+    // the key is still held once the drag ends, so it goes on as a gesture of its own
+    element.dispatch( 'pointerup', pointer );
+    element.dispatch( 'keyup', { code: 'KeyW' } );
+
+    assert.deepEqual( events, [ 'start mouse', 'end mouse', 'start keyboard', 'end keyboard' ] );
+
+    controls.dispose();
+
+  } );
+
+  it( 'turns at keyRotateSpeed while a key is held, with and without damping', () => {
+
+    [ false, true ].forEach( ( enableDamping ) => {
+
+      const element: StubElement = new StubElement();
+      const controls: OrbitControls = createControls( element );
+
+      controls.enableDamping = enableDamping;
+
+      element.dispatch( 'keydown', { code: 'KeyA', repeat: false } );
+
+      for ( let i = 0; i < 60; i ++ ) controls.update( 1 / 60 );
+
+      element.dispatch( 'keyup', { code: 'KeyA' } );
+
+      for ( let i = 0; i < 300; i ++ ) controls.update( 1 / 60 );
+
+      assert.ok( Math.abs( Math.abs( controls.getAzimuthalAngle() ) - controls.keyRotateSpeed ) < 1e-6, 'damping ' + enableDamping );
+
+      controls.dispose();
+
+    } );
+
+  } );
+
+  it( 'rebinds a button written through mouseButtons', () => {
+
+    const controls: OrbitControls = createControls( new StubElement() );
+
+    // swapping two buttons passes through a state where both were bound to the same button
+    controls.mouseButtons.ORBIT = THREE.MOUSE.RIGHT;
+    controls.mouseButtons.PAN = THREE.MOUSE.LEFT;
+
+    assert.strictEqual( controls.mouseButtons.ORBIT, THREE.MOUSE.RIGHT );
+    assert.strictEqual( controls.mouseButtons.PAN, THREE.MOUSE.LEFT );
+    assert.strictEqual( controls.mouseButtons.ZOOM, THREE.MOUSE.MIDDLE );
+
+    controls.dispose();
+
+  } );
+
+  it( 'keeps its bindings to itself', () => {
+
+    const controls: OrbitControls = createControls( new StubElement() );
+    const count: number = controls.bindings.length;
+
+    controls.bindings.push( { button: THREE.MOUSE.LEFT, action: Action.PAN } );
+    controls.bindings[ 0 ].action = Action.NONE;
+
+    assert.strictEqual( controls.bindings.length, count );
+    assert.strictEqual( controls.bindings[ 0 ].action, Action.ROTATE );
+
+    controls.dispose();
+
+  } );
+
+} );
@@ -0,0 +1,345 @@
+import * as assert from 'assert';
+import * as THREE from 'three';
+import OrbitControlsCore, { OrbitControlsState, ControlsChangeEvent } from '../src/OrbitControlsCore';
+
+// The core needs no DOM: only a camera and the size of the viewport.
+describe( 'OrbitControlsCore', () => {
+
+  function createControls(): OrbitControlsCore {
+
+    const camera: THREE.PerspectiveCamera = new THREE.PerspectiveCamera( 50, 4 / 3, 0.1, 1000 );
+
+    camera.position.set( 0, 0, 10 );
+
+    return new OrbitControlsCore( camera, () => ( { width: 800, height: 600 } ) );
+
+  }
+
+  it( 'rotates by input commands', () => {
+
+    const controls: OrbitControlsCore = createControls();
+
+    controls.input( { type: 'start', gesture: 'rotate' } );
+    controls.input( { type: 'rotate', deltaX: 100, deltaY: 0 } );
+    controls.input( { type: 'end' } );
+
+    // a drag across the whole width turns all the way round
+    assert.ok( Math.abs( controls.getAzimuthalAngle() + 2 * Math.PI * 100 / 800 ) < 1e-9 );
+
+  } );
+
+  it( 'reports changes and gestures', () => {
+
+    const controls: OrbitControlsCore = createControls();
+    const types: string[] = [];
+
+    controls.addEventListener( 'start', ( event ) => types.push( event.type ) );
+    controls.addEventListener( 'change', ( event ) => types.push( event.type + ' ' + event.gesture ) );
+    controls.addEventListener( 'end', ( event ) => types.push( event.type ) );
+
+    controls.input( { type: 'start', gesture: 'pan' } );
+    controls.input( { type: 'pan', deltaX: 10, deltaY: 10 } );
+    controls.input( { type: 'end' } );
+
+    assert.deepEqual( types, [ 'start', 'change pan', 'end' ] );
+
+  } );
+
+  it( 'glides to a stop with damping', () => {
+
+    const controls: OrbitControlsCore = createControls();
+
+    controls.enableDamping = true;
+
+    controls.input( { type: 'start', gesture: 'rotate' } );
+    controls.input( { type: 'rotate', deltaX: 10, deltaY: 0 } );
+    controls.input( { type: 'end' } );
+
+    const angle: number = controls.getAzimuthalAngle();
+
+    for ( let i = 0; i < 600; i ++ ) controls.update( 1 / 60 );
+
+    assert.ok( controls.getAzimuthalAngle() < angle );
+    assert.strictEqual( controls.update( 1 / 60 ), false );
+
+  } );
+
+  it( 'reports a reset as one change from where the camera was', () => {
+
+    const controls: OrbitControlsCore = createControls();
+    const changes: ControlsChangeEvent[] = [];
+
+    controls.rotateTo( 1, 1, { duration: 0 } );
+    controls.addEventListener( 'change', ( event ) => changes.push( event ) );
+
+    controls.reset();
+
+    assert.strictEqual( changes.length, 1 );
+    assert.ok( Math.abs( changes[ 0 ].before.spherical.theta - 1 ) < 1e-6 );
+    assert.ok( Math.abs( changes[ 0 ].after.spherical.theta ) < 1e-6 );
+
+    controls.reset();
+
+    assert.strictEqual( changes.length, 1 );
+
+  } );
+
+  it( 'ends moves and momentum on reset()', () => {
+
+    const controls: OrbitControlsCore = createControls();
+    const camera: THREE.Camera = controls.getCamera();
+
+    const moved: Promise<boolean> = controls.setLookAt( new THREE.Vector3( 10, 0, 0 ), new THREE.Vector3(), { duration: 1 } );
+
+    for ( let i = 0; i < 30; i ++ ) controls.update( 1 / 60 );
+
+    controls.reset();
+
+    for ( let i = 0; i < 60; i ++ ) controls.update( 1 / 60 );
+
+    assert.ok( camera.position.distanceTo( new THREE.Vector3( 0, 0, 10 ) ) < 1e-6 );
+
+    controls.enableDamping = true;
+
+    controls.input( { type: 'start', gesture: 'rotate' } );
+    controls.input( { type: 'rotate', deltaX: 100, deltaY: 0 } );
+    controls.input( { type: 'end' } );
+
+    controls.reset();
+
+    for ( let i = 0; i < 60; i ++ ) controls.update( 1 / 60 );
+
+    assert.ok( camera.position.distanceTo( new THREE.Vector3( 0, 0, 10 ) ) < 1e-6 );
+
+    return moved.then( ( completed ) => assert.strictEqual( completed, false ) );
+
+  } );
+
+  it( 'pans and dollies as far with damping as without', () => {
+
+    const results: OrbitControlsState[] = [ false, true ].map( ( enableDamping ) => {
+
+      const controls: OrbitControlsCore = createControls();
+
+      controls.enableDamping = enableDamping;
+
+      controls.input( { type: 'start', gesture: 'pan' } );
+      controls.input( { type: 'pan', deltaX: 100, deltaY: 0 } );
+      controls.input( { type: 'end' } );
+
+      for ( let i = 0; i < 300; i ++ ) controls.update( 1 / 60 );
+
+      controls.input( { type: 'start', gesture: 'dolly' } );
+      controls.input( { type: 'dolly', scale: 0.95 } );
+      controls.input( { type: 'end' } );
+
+      for ( let i = 0; i < 300; i ++ ) controls.update( 1 / 60 );
+
+      return controls.toJSON();
+
+    } );
+
+    assert.ok( Math.abs( results[ 0 ].target[ 0 ] ) > 1 );
+    assert.ok( Math.abs( results[ 1 ].target[ 0 ] - results[ 0 ].target[ 0 ] ) < 1e-6 );
+    assert.ok( Math.abs( results[ 0 ].spherical.radius - 9.5 ) < 1e-4 );
+    assert.ok( Math.abs( results[ 1 ].spherical.radius - 9.5 ) < 1e-4 );
+
+  } );
+
+  it( 'keeps the point under the cursor fixed while dollying, with and without damping', () => {
+
+    [ false, true ].forEach( ( enableDamping ) => {
+
+      const controls: OrbitControlsCore = createControls();
+      const camera: THREE.Camera = controls.getCamera();
+
+      controls.zoomToCursor = true;
+      controls.enableDamping = enableDamping;
+
+      const raycaster: THREE.Raycaster = new THREE.Raycaster();
+
+      // the point at pixel ( 600, 200 ) on the plane through the target
+      camera.updateMatrixWorld( true );
+      raycaster.setFromCamera( new THREE.Vector2( 0.5, 1 / 3 ), camera );
+
+      const point: THREE.Vector3 = raycaster.ray.intersectPlane( new THREE.Plane( new THREE.Vector3( 0, 0, 1 ), 0 ) );
+
+      controls.input( { type: 'start', gesture: 'dolly' } );
+      controls.input( { type: 'dolly', scale: 0.8, x: 600, y: 200 } );
+      controls.input( { type: 'end' } );
+
+      for ( let i = 0; i < 300; i ++ ) controls.update( 1 / 60 );
+
+      camera.updateMatrixWorld( true );
+
+      const projected: THREE.Vector3 = point.clone().project( camera );
+
+      assert.ok( Math.abs( projected.x - 0.5 ) < 1e-6 && Math.abs( projected.y - 1 / 3 ) < 1e-6, 'damping ' + enableDamping );
+
+    } );
+
+  } );
+
+  it( 'stops the target at targetBounds', () => {
+
+    const controls: OrbitControlsCore = createControls();
+    let constraints: number = 0;
+
+    controls.targetBounds = new THREE.Box3( new THREE.Vector3( - 1, - 1, - 1 ), new THREE.Vector3( 1, 1, 1 ) );
+    controls.addEventListener( 'constraint', () => constraints ++ );
+
+    controls.input( { type: 'start', gesture: 'pan' } );
+    controls.input( { type: 'pan', deltaX: 400, deltaY: 0 } );
+    controls.input( { type: 'end' } );
+
+    assert.ok( controls.target.distanceTo( new THREE.Vector3( - 1, 0, 0 ) ) < 1e-6 );
+    assert.strictEqual( constraints, 1 );
+
+  } );
+
+  it( 'lets the target stretch past targetBounds and spring back with boundaryElasticity', () => {
+
+    const controls: OrbitControlsCore = createControls();
+
+    controls.targetBounds = new THREE.Box3( new THREE.Vector3( - 1, - 1, - 1 ), new THREE.Vector3( 1, 1, 1 ) );
+    controls.boundaryElasticity = 0.5;
+
+    controls.input( { type: 'start', gesture: 'pan' } );
+    controls.input( { type: 'pan', deltaX: 400, deltaY: 0 } );
+    controls.input( { type: 'end' } );
+
+    assert.ok( controls.target.x < - 2 );
+
+    for ( let i = 0; i < 300; i ++ ) controls.update( 1 / 60 );
+
+    assert.ok( controls.target.distanceTo( new THREE.Vector3( - 1, 0, 0 ) ) < 1e-3 );
+
+  } );
+
+  it( 'keeps the camera above groundPlane and eases back out once clear', () => {
+
+    const controls: OrbitControlsCore = createControls();
+    const camera: THREE.Camera = controls.getCamera();
+
+    controls.groundPlane = new THREE.Plane( new THREE.Vector3( 0, 1, 0 ), 0 );
+
+    // looking up from below the ground
+    controls.jumpTo( new THREE.Spherical( 10, 2.5, 0 ), new THREE.Vector3( 0, 1, 0 ) );
+
+    assert.ok( Math.abs( camera.position.y - controls.collisionMargin ) < 1e-6 );
+
+    controls.input( { type: 'start', gesture: 'rotate' } );
+    controls.input( { type: 'rotate', deltaX: 0, deltaY: 150 } );
+    controls.input( { type: 'end' } );
+
+    assert.ok( camera.position.distanceTo( controls.target ) < 10 );
+
+    for ( let i = 0; i < 300; i ++ ) controls.update( 1 / 60 );
+
+    assert.ok( Math.abs( camera.position.distanceTo( controls.target ) - 10 ) < 1e-6 );
+
+  } );
+
+  it( 'keeps the camera in front of colliders', () => {
+
+    const controls: OrbitControlsCore = createControls();
+    const camera: THREE.Camera = controls.getCamera();
+    const wall: THREE.Mesh = new THREE.Mesh( new THREE.BoxGeometry( 4, 4, 1 ), new THREE.MeshBasicMaterial() );
+
+    // its near face is 4.5 from the target
+    wall.position.set( 0, 0, 5 );
+    wall.updateMatrixWorld( true );
+
+    controls.colliders = [ wall ];
+    controls.update( 0 );
+
+    assert.ok( camera.position.distanceTo( new THREE.Vector3( 0, 0, 4.5 - controls.collisionMargin ) ) < 1e-6 );
+
+  } );
+
+  it( 'turns over the pole in trackball mode', () => {
+
+    const controls: OrbitControlsCore = createControls();
+    const camera: THREE.Camera = controls.getCamera();
+
+    controls.rotationMode = 'trackball';
+
+    // half the height of the viewport turns half way round
+    controls.input( { type: 'start', gesture: 'rotate' } );
+    controls.input( { type: 'rotate', deltaX: 0, deltaY: 300 } );
+    controls.input( { type: 'end' } );
+
+    assert.ok( camera.position.distanceTo( new THREE.Vector3( 0, 0, - 10 ) ) < 1e-6 );
+
+    // upside down
+    assert.ok( new THREE.Vector3( 0, 1, 0 ).applyQuaternion( camera.quaternion ).y < - 0.999 );
+
+    // an orbit stops at the pole instead
+    controls.rotationMode = 'orbit';
+    controls.reset();
+
+    controls.input( { type: 'start', gesture: 'rotate' } );
+    controls.input( { type: 'rotate', deltaX: 0, deltaY: 300 } );
+    controls.input( { type: 'end' } );
+
+    assert.ok( camera.position.y > 9.99 );
+
+  } );
+
+  it( 'moves the camera over the duration of a transition and then resolves to true', () => {
+
+    const controls: OrbitControlsCore = createControls();
+    const camera: THREE.Camera = controls.getCamera();
+    const events: string[] = [];
+
+    controls.addEventListener( 'start', ( event ) => events.push( 'start ' + event.gesture ) );
+    controls.addEventListener( 'end', ( event ) => events.push( 'end ' + event.gesture ) );
+
+    const moved: Promise<boolean> = controls.setLookAt( new THREE.Vector3( 10, 0, 0 ), new THREE.Vector3(), { duration: 1 } );
+
+    for ( let i = 0; i < 30; i ++ ) controls.update( 1 / 60 );
+
+    assert.ok( camera.position.x > 0 && camera.position.z > 0 );
+    assert.deepEqual( events, [ 'start transition' ] );
+
+    for ( let i = 0; i < 30; i ++ ) controls.update( 1 / 60 );
+
+    assert.ok( camera.position.distanceTo( new THREE.Vector3( 10, 0, 0 ) ) < 1e-6 );
+    assert.deepEqual( events, [ 'start transition', 'end transition' ] );
+
+    return moved.then( ( completed ) => assert.strictEqual( completed, true ) );
+
+  } );
+
+  it( 'resolves a transition to false when another move or a gesture cancels it', () => {
+
+    const controls: OrbitControlsCore = createControls();
+
+    const first: Promise<boolean> = controls.rotateTo( 1, 1 );
+    const second: Promise<boolean> = controls.dollyTo( 5 );
+
+    controls.update( 1 / 60 );
+    controls.input( { type: 'start', gesture: 'rotate' } );
+    controls.input( { type: 'end' } );
+
+    for ( let i = 0; i < 60; i ++ ) controls.update( 1 / 60 );
+
+    assert.ok( controls.getCamera().position.distanceTo( controls.target ) > 9 );
+
+    return Promise.all( [ first, second ] ).then( ( completed ) => assert.deepEqual( completed, [ false, false ] ) );
+
+  } );
+
+  it( 'turns the short way round in a transition', () => {
+
+    const controls: OrbitControlsCore = createControls();
+
+    controls.rotateTo( 2 * Math.PI - 0.5, Math.PI / 2, { duration: 1, easing: ( t ) => t } );
+
+    for ( let i = 0; i < 30; i ++ ) controls.update( 1 / 60 );
+
+    assert.ok( Math.abs( controls.getAzimuthalAngle() + 0.25 ) < 1e-6 );
+
+  } );
+
+} );